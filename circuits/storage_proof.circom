@@ -17,6 +17,8 @@ include "circomlib/circuits/comparators.circom";
  * - fileHash: Hash of the actual file content
  * - policyId: The policy identifier
  * - timestamp: When the data was stored
+ * - metadataDigest: SHA-256 of the canonical commitment metadata, as two
+ *   128-bit halves (high, low)
  */
 
 template StorageProof() {
@@ -28,15 +30,18 @@ template StorageProof() {
     signal input fileHash;
     signal input policyId;
     signal input timestamp;
+    signal input metadataDigest[2];
 
     // Output signal (1 if valid)
     signal output valid;
 
-    // Compute the commitment from file hash and policy
-    component hasher = Poseidon(3);
+    // Compute the commitment from file hash, policy and metadata
+    component hasher = Poseidon(5);
     hasher.inputs[0] <== fileHash;
     hasher.inputs[1] <== policyId;
     hasher.inputs[2] <== timestamp;
+    hasher.inputs[3] <== metadataDigest[0];
+    hasher.inputs[4] <== metadataDigest[1];
 
     // Verify commitment matches
     signal commitmentMatch;
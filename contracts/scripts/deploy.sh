@@ -1,7 +1,7 @@
 #!/bin/bash
 
 # zkStorage Contract Deployment Script for Sui Testnet
-# This script deploys the StorageReceipt, ProofVerifier, and ComplianceLedger modules
+# This script deploys the StorageReceipt, ProofVerifier, ComplianceLedger and SealPolicy modules
 
 set -e
 
@@ -58,8 +58,37 @@ echo ""
 echo "Publishing contracts to testnet..."
 PUBLISH_OUTPUT=$(sui client publish --gas-budget 100000000 --json 2>&1)
 
-# Extract package ID
-PACKAGE_ID=$(echo "$PUBLISH_OUTPUT" | grep -o '"packageId":"0x[a-f0-9]*"' | head -1 | grep -o '0x[a-f0-9]*')
+# Extract the package ID, its modules and the transaction digest
+read_publish_output() {
+    echo "$PUBLISH_OUTPUT" | node -e '
+        let input = ""
+        process.stdin.on("data", (chunk) => (input += chunk))
+        process.stdin.on("end", () => {
+            let output
+            try {
+                output = JSON.parse(input.slice(input.indexOf("{")))
+            } catch {
+                process.exit(0)
+            }
+            const published = (output.objectChanges || []).find((change) => change.type === "published")
+            const field = process.argv[1]
+            if (field === "packageId") console.log(published ? published.packageId : "")
+            if (field === "modules") console.log(published ? JSON.stringify(published.modules) : "")
+            if (field === "digest") console.log(output.digest || "")
+            if (field === "complianceLedgerId") {
+                const ledger = (output.objectChanges || []).find(
+                    (change) => change.type === "created" && change.objectType.endsWith("::compliance_ledger::ComplianceLedger")
+                )
+                console.log(ledger ? ledger.objectId : "")
+            }
+        })
+    ' "$1"
+}
+
+PACKAGE_ID=$(read_publish_output packageId)
+MODULES=$(read_publish_output modules)
+TX_DIGEST=$(read_publish_output digest)
+COMPLIANCE_LEDGER_ID=$(read_publish_output complianceLedgerId)
 
 if [ -z "$PACKAGE_ID" ]; then
     echo "Error: Failed to extract package ID from publish output"
@@ -73,10 +102,11 @@ echo "Deployment Successful!"
 echo "========================================="
 echo ""
 echo "Package ID: $PACKAGE_ID"
+echo "ComplianceLedger: $COMPLIANCE_LEDGER_ID"
 echo ""
-echo "Update the following files with this Package ID:"
-echo "  - frontend/lib/sui.ts (PACKAGE_ID constant)"
-echo "  - contracts/Move.toml ([addresses] section)"
+echo "Add to frontend/.env.local (see frontend/.env.example):"
+echo "  NEXT_PUBLIC_SUI_PACKAGE_ID=$PACKAGE_ID"
+echo "  NEXT_PUBLIC_COMPLIANCE_LEDGER_ID=$COMPLIANCE_LEDGER_ID"
 echo ""
 
 # Create deployment info file
@@ -85,17 +115,15 @@ cat > "$CONTRACT_DIR/deployment-info.json" << EOF
   "network": "testnet",
   "packageId": "$PACKAGE_ID",
   "deployedAt": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
-  "modules": [
-    "storage_receipt",
-    "proof_verifier",
-    "compliance_ledger"
-  ]
+  "txDigest": "$TX_DIGEST",
+  "complianceLedgerId": "$COMPLIANCE_LEDGER_ID",
+  "modules": $MODULES
 }
 EOF
 
 echo "Deployment info saved to deployment-info.json"
 echo ""
 echo "Next steps:"
-echo "1. Update PACKAGE_ID in frontend/lib/sui.ts"
+echo "1. Set NEXT_PUBLIC_SUI_PACKAGE_ID and NEXT_PUBLIC_COMPLIANCE_LEDGER_ID in frontend/.env.local"
 echo "2. Run 'npm run dev' in the frontend directory"
 echo "3. Test the upload and verification flow"
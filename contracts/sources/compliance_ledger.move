@@ -14,6 +14,7 @@ module zk_storage::compliance_ledger {
     use sui::event;
     use sui::table::{Self, Table};
     use std::string::{Self, String};
+    use zk_storage::storage_receipt::{Self, StorageReceipt};
 
     // ======== Errors ========
     const EUnauthorized: u64 = 0;
@@ -72,6 +73,19 @@ module zk_storage::compliance_ledger {
         timestamp: u64,
     }
 
+    /// Emitted when a receipt is erased on its owner's request. `evidence`
+    /// identifies the Walrus blob deletion (the deleted Blob object ID, or
+    /// the deletion transaction digest when deleted separately).
+    public struct ErasureRecorded has copy, drop {
+        record_id: u64,
+        receipt_id: address,
+        owner: address,
+        commitment: vector<u8>,
+        blob_id: String,
+        evidence: vector<u8>,
+        timestamp: u64,
+    }
+
     /// Emitted when auditor queries records
     public struct AuditPerformed has copy, drop {
         auditor: address,
@@ -161,6 +175,41 @@ module zk_storage::compliance_ledger {
         transfer::transfer(record, tx_context::sender(ctx));
     }
 
+    /// Erase a receipt and record the erasure in the ledger. Call in the same
+    /// transaction as the Walrus blob deletion so both happen or neither
+    /// does. The erasure record is transferred to the owner as evidence.
+    public entry fun erase_and_record(
+        ledger: &mut ComplianceLedger,
+        receipt: StorageReceipt,
+        evidence: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let (receipt_id, commitment, blob_id) = storage_receipt::erase_receipt(receipt, clock, ctx);
+
+        let record = record_compliance(
+            ledger,
+            receipt_id,
+            string::utf8(b"erasure"),
+            evidence,
+            blob_id,
+            clock,
+            ctx
+        );
+
+        event::emit(ErasureRecorded {
+            record_id: record.record_id,
+            receipt_id,
+            owner: tx_context::sender(ctx),
+            commitment,
+            blob_id: record.metadata,
+            evidence: record.proof_hash,
+            timestamp: record.verified_at,
+        });
+
+        transfer::transfer(record, tx_context::sender(ctx));
+    }
+
     /// Create an auditor capability
     public entry fun create_auditor(
         auditor: address,
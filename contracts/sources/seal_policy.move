@@ -0,0 +1,202 @@
+/// Seal Policy Module
+///
+/// On-chain access policies for Seal-encrypted data. Seal key servers
+/// dry-run `seal_approve` before releasing a key for an identity, and only
+/// release it if the call succeeds. Identities are the policy object's ID
+/// followed by a per-upload nonce, so every key under a policy is governed
+/// by the same object. A policy combines:
+/// - a time lock: keys are released until the policy expires
+/// - an allowlist: addresses besides the owner that may decrypt
+/// - consent: when required, keys are only released while the owner's
+///   consent is recorded, so revoking consent revokes access
+module zk_storage::seal_policy {
+    use sui::object::{Self, UID};
+    use sui::transfer;
+    use sui::tx_context::{Self, TxContext};
+    use sui::clock::{Self, Clock};
+    use sui::event;
+
+    // ======== Errors ========
+    const ENoAccess: u64 = 0;
+    const EUnauthorized: u64 = 1;
+    const EInvalidExpiry: u64 = 2;
+    const EAlreadyListed: u64 = 3;
+    const ENotListed: u64 = 4;
+
+    // ======== Types ========
+
+    /// Access policy for data encrypted under identities prefixed with its ID.
+    /// `store` lets packages built on this one hold or transfer policies
+    /// returned by create_policy; keys are only released for shared ones.
+    public struct SealPolicy has key, store {
+        id: UID,
+        /// Owner's address; always allowed while the policy holds
+        owner: address,
+        /// Client-side policy ID, an input of the upload commitment
+        policy_id: vector<u8>,
+        /// Timestamp after which no keys are released
+        expires_at: u64,
+        /// Addresses allowed to decrypt besides the owner
+        allowlist: vector<address>,
+        /// Whether keys are only released while consent is recorded
+        consent_required: bool,
+        /// Whether the owner's consent is currently recorded
+        consent_given: bool,
+    }
+
+    // ======== Events ========
+
+    /// Emitted when a policy is created
+    public struct PolicyCreated has copy, drop {
+        policy: address,
+        owner: address,
+        policy_id: vector<u8>,
+        expires_at: u64,
+        consent_required: bool,
+    }
+
+    /// Emitted when consent is given or revoked
+    public struct ConsentChanged has copy, drop {
+        policy: address,
+        consent_given: bool,
+        timestamp: u64,
+    }
+
+    // ======== Functions ========
+
+    /// Create a policy owned by the sender. Pass `consent_given` when the
+    /// owner signed consent at upload.
+    public fun create_policy(
+        policy_id: vector<u8>,
+        expires_at: u64,
+        allowlist: vector<address>,
+        consent_required: bool,
+        consent_given: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): SealPolicy {
+        assert!(expires_at > clock::timestamp_ms(clock), EInvalidExpiry);
+
+        let policy = SealPolicy {
+            id: object::new(ctx),
+            owner: tx_context::sender(ctx),
+            policy_id,
+            expires_at,
+            allowlist,
+            consent_required,
+            consent_given,
+        };
+
+        event::emit(PolicyCreated {
+            policy: object::uid_to_address(&policy.id),
+            owner: policy.owner,
+            policy_id: policy.policy_id,
+            expires_at,
+            consent_required,
+        });
+
+        policy
+    }
+
+    /// Create a policy and share it, so key servers and readers can pass it
+    /// to `seal_approve`
+    public entry fun create_and_share_policy(
+        policy_id: vector<u8>,
+        expires_at: u64,
+        allowlist: vector<address>,
+        consent_required: bool,
+        consent_given: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let policy = create_policy(
+            policy_id,
+            expires_at,
+            allowlist,
+            consent_required,
+            consent_given,
+            clock,
+            ctx
+        );
+        transfer::share_object(policy);
+    }
+
+    /// Allow another address to decrypt
+    public entry fun add_reader(policy: &mut SealPolicy, reader: address, ctx: &TxContext) {
+        assert!(tx_context::sender(ctx) == policy.owner, EUnauthorized);
+        assert!(!vector::contains(&policy.allowlist, &reader), EAlreadyListed);
+        vector::push_back(&mut policy.allowlist, reader);
+    }
+
+    /// Stop releasing keys to an address
+    public entry fun remove_reader(policy: &mut SealPolicy, reader: address, ctx: &TxContext) {
+        assert!(tx_context::sender(ctx) == policy.owner, EUnauthorized);
+        let (found, index) = vector::index_of(&policy.allowlist, &reader);
+        assert!(found, ENotListed);
+        vector::remove(&mut policy.allowlist, index);
+    }
+
+    /// Record or revoke the owner's consent
+    public entry fun set_consent(policy: &mut SealPolicy, consent_given: bool, clock: &Clock, ctx: &TxContext) {
+        assert!(tx_context::sender(ctx) == policy.owner, EUnauthorized);
+        policy.consent_given = consent_given;
+
+        event::emit(ConsentChanged {
+            policy: object::uid_to_address(&policy.id),
+            consent_given,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    /// Whether `caller` may obtain the key for identity `id` at `now`
+    public fun can_access(policy: &SealPolicy, id: &vector<u8>, caller: address, now: u64): bool {
+        is_prefix(&object::uid_to_bytes(&policy.id), id)
+            && now < policy.expires_at
+            && (caller == policy.owner || vector::contains(&policy.allowlist, &caller))
+            && (!policy.consent_required || policy.consent_given)
+    }
+
+    /// Called by Seal key servers in a dry run; aborts unless the sender may
+    /// decrypt data encrypted under `id`
+    entry fun seal_approve(id: vector<u8>, policy: &SealPolicy, clock: &Clock, ctx: &TxContext) {
+        assert!(
+            can_access(policy, &id, tx_context::sender(ctx), clock::timestamp_ms(clock)),
+            ENoAccess
+        );
+    }
+
+    fun is_prefix(prefix: &vector<u8>, bytes: &vector<u8>): bool {
+        let len = vector::length(prefix);
+        if (vector::length(bytes) < len) {
+            return false
+        };
+        let mut i = 0;
+        while (i < len) {
+            if (*vector::borrow(prefix, i) != *vector::borrow(bytes, i)) {
+                return false
+            };
+            i = i + 1;
+        };
+        true
+    }
+
+    /// Get the owner of a policy
+    public fun owner(policy: &SealPolicy): address {
+        policy.owner
+    }
+
+    /// Get the expiry of a policy
+    public fun expires_at(policy: &SealPolicy): u64 {
+        policy.expires_at
+    }
+
+    /// Get the addresses allowed to decrypt besides the owner
+    public fun allowlist(policy: &SealPolicy): &vector<address> {
+        &policy.allowlist
+    }
+
+    /// Check if consent is currently recorded
+    public fun has_consent(policy: &SealPolicy): bool {
+        policy.consent_given
+    }
+}
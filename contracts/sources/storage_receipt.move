@@ -19,6 +19,8 @@ module zk_storage::storage_receipt {
     const EInvalidCommitment: u64 = 1;
     const EUnauthorized: u64 = 2;
     const EAlreadyVerified: u64 = 3;
+    const EInvalidExtension: u64 = 4;
+    const EInvalidExpiry: u64 = 5;
 
     // ======== Types ========
 
@@ -35,8 +37,10 @@ module zk_storage::storage_receipt {
         policy_id: String,
         /// Timestamp when receipt was created
         created_at: u64,
-        /// Timestamp when data expires
+        /// Timestamp when data expires (start of the blob's end epoch)
         expires_at: u64,
+        /// Walrus epoch at which the blob expires
+        end_epoch: u64,
         /// Whether consent was signed
         consent_signed: bool,
         /// Whether this receipt has been verified with a ZK proof
@@ -60,6 +64,7 @@ module zk_storage::storage_receipt {
         blob_id: String,
         policy_id: String,
         expires_at: u64,
+        end_epoch: u64,
     }
 
     /// Emitted when a receipt is verified
@@ -70,12 +75,31 @@ module zk_storage::storage_receipt {
         timestamp: u64,
     }
 
+    /// Emitted when a receipt's retention is extended
+    public struct ReceiptRenewed has copy, drop {
+        receipt_id: address,
+        owner: address,
+        previous_expires_at: u64,
+        expires_at: u64,
+        previous_end_epoch: u64,
+        end_epoch: u64,
+    }
+
     /// Emitted when a receipt expires and is deleted
     public struct ReceiptExpired has copy, drop {
         receipt_id: address,
         owner: address,
     }
 
+    /// Emitted when the owner erases a receipt before it expires
+    public struct ReceiptErased has copy, drop {
+        receipt_id: address,
+        owner: address,
+        commitment: vector<u8>,
+        blob_id: String,
+        erased_at: u64,
+    }
+
     // ======== Functions ========
 
     /// Initialize the module - creates admin capability
@@ -86,7 +110,9 @@ module zk_storage::storage_receipt {
         );
     }
 
-    /// Create a new storage receipt
+    /// Create a new storage receipt expiring `retention_days` from now.
+    /// This is the ABI of the first published version; its receipts don't
+    /// record an end epoch (0). Prefer create_receipt_with_end_epoch.
     public fun create_receipt(
         commitment: vector<u8>,
         blob_id: String,
@@ -95,10 +121,87 @@ module zk_storage::storage_receipt {
         consent_signed: bool,
         clock: &Clock,
         ctx: &mut TxContext
+    ): StorageReceipt {
+        let expires_at = clock::timestamp_ms(clock) + (retention_days * 24 * 60 * 60 * 1000);
+        new_receipt(commitment, blob_id, policy_id, 0, expires_at, consent_signed, clock, ctx)
+    }
+
+    /// Create and transfer a receipt to the sender (see create_receipt)
+    public entry fun create_and_transfer_receipt(
+        commitment: vector<u8>,
+        blob_id: vector<u8>,
+        policy_id: vector<u8>,
+        retention_days: u64,
+        consent_signed: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let receipt = create_receipt(
+            commitment,
+            string::utf8(blob_id),
+            string::utf8(policy_id),
+            retention_days,
+            consent_signed,
+            clock,
+            ctx
+        );
+        transfer::transfer(receipt, tx_context::sender(ctx));
+    }
+
+    /// Create a new storage receipt. `end_epoch` is the blob's Walrus end
+    /// epoch and `expires_at` the time that epoch starts, so the receipt
+    /// lapses together with the blob.
+    public fun create_receipt_with_end_epoch(
+        commitment: vector<u8>,
+        blob_id: String,
+        policy_id: String,
+        end_epoch: u64,
+        expires_at: u64,
+        consent_signed: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): StorageReceipt {
+        assert!(expires_at > clock::timestamp_ms(clock), EInvalidExpiry);
+        new_receipt(commitment, blob_id, policy_id, end_epoch, expires_at, consent_signed, clock, ctx)
+    }
+
+    /// Create and transfer a receipt to the sender (see
+    /// create_receipt_with_end_epoch)
+    public entry fun create_and_transfer_receipt_with_end_epoch(
+        commitment: vector<u8>,
+        blob_id: vector<u8>,
+        policy_id: vector<u8>,
+        end_epoch: u64,
+        expires_at: u64,
+        consent_signed: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let receipt = create_receipt_with_end_epoch(
+            commitment,
+            string::utf8(blob_id),
+            string::utf8(policy_id),
+            end_epoch,
+            expires_at,
+            consent_signed,
+            clock,
+            ctx
+        );
+        transfer::transfer(receipt, tx_context::sender(ctx));
+    }
+
+    fun new_receipt(
+        commitment: vector<u8>,
+        blob_id: String,
+        policy_id: String,
+        end_epoch: u64,
+        expires_at: u64,
+        consent_signed: bool,
+        clock: &Clock,
+        ctx: &mut TxContext
     ): StorageReceipt {
         let sender = tx_context::sender(ctx);
         let current_time = clock::timestamp_ms(clock);
-        let expires_at = current_time + (retention_days * 24 * 60 * 60 * 1000);
 
         let receipt = StorageReceipt {
             id: object::new(ctx),
@@ -108,6 +211,7 @@ module zk_storage::storage_receipt {
             policy_id,
             created_at: current_time,
             expires_at,
+            end_epoch,
             consent_signed,
             verified: false,
             verification_count: 0,
@@ -120,33 +224,12 @@ module zk_storage::storage_receipt {
             blob_id: receipt.blob_id,
             policy_id: receipt.policy_id,
             expires_at,
+            end_epoch,
         });
 
         receipt
     }
 
-    /// Create and transfer a receipt to the sender
-    public entry fun create_and_transfer_receipt(
-        commitment: vector<u8>,
-        blob_id: vector<u8>,
-        policy_id: vector<u8>,
-        retention_days: u64,
-        consent_signed: bool,
-        clock: &Clock,
-        ctx: &mut TxContext
-    ) {
-        let receipt = create_receipt(
-            commitment,
-            string::utf8(blob_id),
-            string::utf8(policy_id),
-            retention_days,
-            consent_signed,
-            clock,
-            ctx
-        );
-        transfer::transfer(receipt, tx_context::sender(ctx));
-    }
-
     /// Mark a receipt as verified (called by proof verifier)
     public fun mark_verified(
         receipt: &mut StorageReceipt,
@@ -168,6 +251,38 @@ module zk_storage::storage_receipt {
         });
     }
 
+    /// Extend a receipt's expiry after its Walrus blob has been extended
+    /// to `new_end_epoch`. Only the owner can renew, and only before the
+    /// receipt has lapsed.
+    public entry fun renew_receipt(
+        receipt: &mut StorageReceipt,
+        new_end_epoch: u64,
+        new_expires_at: u64,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == receipt.owner, EUnauthorized);
+        assert!(new_end_epoch > receipt.end_epoch, EInvalidExtension);
+        assert!(new_expires_at > receipt.expires_at, EInvalidExtension);
+
+        let current_time = clock::timestamp_ms(clock);
+        assert!(current_time < receipt.expires_at, EReceiptExpired);
+
+        let previous_expires_at = receipt.expires_at;
+        let previous_end_epoch = receipt.end_epoch;
+        receipt.expires_at = new_expires_at;
+        receipt.end_epoch = new_end_epoch;
+
+        event::emit(ReceiptRenewed {
+            receipt_id: object::uid_to_address(&receipt.id),
+            owner: receipt.owner,
+            previous_expires_at,
+            expires_at: new_expires_at,
+            previous_end_epoch,
+            end_epoch: new_end_epoch,
+        });
+    }
+
     /// Check if a receipt is still valid (not expired)
     public fun is_valid(receipt: &StorageReceipt, clock: &Clock): bool {
         clock::timestamp_ms(clock) < receipt.expires_at
@@ -208,6 +323,11 @@ module zk_storage::storage_receipt {
         receipt.expires_at
     }
 
+    /// Get the Walrus end epoch of the stored blob
+    public fun end_epoch(receipt: &StorageReceipt): u64 {
+        receipt.end_epoch
+    }
+
     /// Get the UID of a receipt (for package-level access)
     public(package) fun id(receipt: &StorageReceipt): &UID {
         &receipt.id
@@ -234,11 +354,49 @@ module zk_storage::storage_receipt {
             policy_id: _,
             created_at: _,
             expires_at: _,
+            end_epoch: _,
+            consent_signed: _,
+            verified: _,
+            verification_count: _,
+        } = receipt;
+        object::delete(id);
+    }
+
+    /// Erase a receipt before it expires (right to erasure). Only the owner
+    /// can erase. Returns the receipt's address, commitment and blob ID so
+    /// the erasure can be recorded as evidence.
+    public fun erase_receipt(
+        receipt: StorageReceipt,
+        clock: &Clock,
+        ctx: &TxContext
+    ): (address, vector<u8>, String) {
+        assert!(tx_context::sender(ctx) == receipt.owner, EUnauthorized);
+
+        let receipt_id = object::uid_to_address(&receipt.id);
+        let StorageReceipt {
+            id,
+            owner,
+            commitment,
+            blob_id,
+            policy_id: _,
+            created_at: _,
+            expires_at: _,
+            end_epoch: _,
             consent_signed: _,
             verified: _,
             verification_count: _,
         } = receipt;
         object::delete(id);
+
+        event::emit(ReceiptErased {
+            receipt_id,
+            owner,
+            commitment,
+            blob_id,
+            erased_at: clock::timestamp_ms(clock),
+        });
+
+        (receipt_id, commitment, blob_id)
     }
 
     #[test_only]
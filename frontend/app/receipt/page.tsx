@@ -30,13 +30,21 @@ import {
   generateRetentionProofInputs,
   generateConsentProofInputs,
   generateThresholdProofInputs,
+  type CircuitInputs,
   type ProofBundle,
   formatProofForDisplay
 } from "@/lib/zk-prover"
 import { toast } from "@/lib/use-toast"
 import { useSignAndExecuteTransaction, useCurrentAccount, useCurrentWallet } from "@mysten/dapp-kit"
-import { buildCreateReceiptTx } from "@/lib/sui"
+import { buildCreateReceiptTx, createSuiClient, getPackageFeatures } from "@/lib/sui"
+import { findOwnedBlobObjects, getBlobStatus } from "@/lib/walrus"
+import { getEpochInfo, epochsToDate } from "@/lib/walrus-epochs"
 import { WalletDisplay } from "@/components/WalletDisplay"
+import { ExpiringReceipts } from "@/components/ExpiringReceipts"
+import { PartialDisclosure } from "@/components/PartialDisclosure"
+import { FolderProofs } from "@/components/FolderProofs"
+import { ErasureRequests } from "@/components/ErasureRequests"
+import { ThresholdApprovals, type VerifiedApprovals } from "@/components/ThresholdApprovals"
 
 function ReceiptPageContent() {
   const searchParams = useSearchParams()
@@ -46,12 +54,14 @@ function ReceiptPageContent() {
   const [commitment, setCommitment] = useState("")
   const [blobId, setBlobId] = useState("")
   const [policyId, setPolicyId] = useState("")
+  const [endEpoch, setEndEpoch] = useState<number | null>(null)
   const [proofType, setProofType] = useState<"storage" | "retention" | "consent" | "threshold">("storage")
   const [retentionDays, setRetentionDays] = useState(30)
   const [maxRetentionDays, setMaxRetentionDays] = useState(90)
   const [generating, setGenerating] = useState(false)
   const [proof, setProof] = useState<ProofBundle | null>(null)
   const [receiptId, setReceiptId] = useState<string | null>(null)
+  const [thresholdApprovals, setThresholdApprovals] = useState<VerifiedApprovals | null>(null)
 
   useEffect(() => {
     const c = searchParams.get("commitment")
@@ -60,8 +70,51 @@ function ReceiptPageContent() {
     if (c) setCommitment(c)
     if (b) setBlobId(b)
     if (p) setPolicyId(p)
+    const e = Number(searchParams.get("endEpoch"))
+    if (Number.isInteger(e) && e > 0) setEndEpoch(e)
   }, [searchParams])
 
+  /**
+   * End epoch and expiry for the receipt, from the blob itself: as recorded
+   * at upload, otherwise read from its Sui Blob object, falling back to the
+   * end epoch the upload page linked with
+   */
+  const resolveReceiptLifetime = async (): Promise<{ endEpoch: number; expiresAt: number }> => {
+    let blobObjectId: string | undefined
+    try {
+      const storedData = localStorage.getItem(`zkStorage_${commitment}`)
+      if (storedData) {
+        const parsed = JSON.parse(storedData)
+        if (parsed.endEpoch && parsed.expiresAt) {
+          return { endEpoch: parsed.endEpoch, expiresAt: parsed.expiresAt }
+        }
+        blobObjectId = parsed.blobObjectId
+      }
+    } catch (e) {
+      console.warn("Failed to retrieve storage lifetime from localStorage:", e)
+    }
+
+    const client = createSuiClient()
+    const info = await getEpochInfo(client)
+    let resolvedEndEpoch = (await getBlobStatus(blobId, { suiObjectId: blobObjectId, client })).endEpoch
+    if (resolvedEndEpoch === null && account) {
+      // Uploads send the Blob object to the uploader
+      const owned = await findOwnedBlobObjects(client, account.address, [blobId]).catch((e) => {
+        console.warn("Failed to look up the wallet's Blob objects:", e)
+        return []
+      })
+      if (owned.length > 0) resolvedEndEpoch = Math.max(...owned.map((object) => object.endEpoch))
+    }
+    resolvedEndEpoch ??= endEpoch
+    if (!resolvedEndEpoch) {
+      throw new Error("Couldn't read the blob's end epoch; create the receipt from the wallet that uploaded it")
+    }
+    return {
+      endEpoch: resolvedEndEpoch,
+      expiresAt: epochsToDate(resolvedEndEpoch, info).getTime(),
+    }
+  }
+
   const handleGenerateProof = async () => {
     if (!commitment) {
       toast({
@@ -76,11 +129,47 @@ function ReceiptPageContent() {
     setProof(null)
 
     try {
-      let inputs: Record<string, string>
+      // Retrieve policy and commitment inputs from localStorage if available
+      let policy = undefined
+      let blobDigest: string | undefined
+      let quiltIndex: number | undefined
+      let blobObjectId: string | undefined
+      let fileRoot: string | undefined
+      let committedAt: number | undefined
+      let metadataDigest: string | undefined
+      try {
+        const storedData = localStorage.getItem(`zkStorage_${commitment}`)
+        if (storedData) {
+          const parsed = JSON.parse(storedData)
+          policy = parsed.policy
+          blobDigest = parsed.blobDigest
+          quiltIndex = parsed.quiltIndex
+          blobObjectId = parsed.blobObjectId
+          fileRoot = parsed.fileRoot
+          committedAt = parsed.committedAt
+          metadataDigest = parsed.metadataDigest
+        }
+      } catch (e) {
+        console.warn("Failed to retrieve policy from localStorage:", e)
+      }
+
+      let inputs: CircuitInputs
 
       switch (proofType) {
         case "storage":
-          inputs = await generateStorageProofInputs(commitment, blobId || commitment, policyId || commitment)
+          // The storage circuit recomputes the commitment from these
+          if (!fileRoot || committedAt === undefined || !metadataDigest || !(policyId || policy?.id)) {
+            throw new Error(
+              "Storage proofs need the file root, policy, timestamp and metadata digest recorded at upload, which aren't stored in this browser"
+            )
+          }
+          inputs = await generateStorageProofInputs(
+            commitment,
+            fileRoot,
+            policyId || policy!.id,
+            committedAt,
+            metadataDigest
+          )
           break
         case "retention":
           inputs = generateRetentionProofInputs(commitment, retentionDays, maxRetentionDays, Date.now())
@@ -89,24 +178,28 @@ function ReceiptPageContent() {
           inputs = generateConsentProofInputs(commitment, commitment, true)
           break
         case "threshold":
-          inputs = generateThresholdProofInputs(commitment, 2, 3, "0x1234567890abcdef")
+          // The key holders' verified approvals are the circuit's private inputs
+          if (!thresholdApprovals) {
+            throw new Error("Verify a quorum of key holder approvals before generating a threshold proof")
+          }
+          if (!account) {
+            throw new Error("Connect the auditor's wallet to generate a threshold proof")
+          }
+          inputs = await generateThresholdProofInputs(
+            commitment,
+            thresholdApprovals.required,
+            thresholdApprovals.indices,
+            account.address
+          )
           break
       }
 
-      // Retrieve policy from localStorage if available
-      let policy = undefined
-      try {
-        const storedData = localStorage.getItem(`zkStorage_${commitment}`)
-        if (storedData) {
-          const parsed = JSON.parse(storedData)
-          policy = parsed.policy
-        }
-      } catch (e) {
-        console.warn("Failed to retrieve policy from localStorage:", e)
-      }
-
       const result = await generateProof(proofType, inputs, {
+        commitment,
         blobId: blobId || undefined,
+        blobDigest,
+        quiltIndex,
+        blobObjectId,
         policyId: policyId || undefined,
         policy: policy,
       })
@@ -328,6 +421,7 @@ function ReceiptPageContent() {
                       Proves that a quorum of key holders approved a decryption request,
                       enabling auditor access with on-chain verification.
                     </p>
+                    <ThresholdApprovals commitment={commitment} blobId={blobId} onVerified={setThresholdApprovals} />
                   </div>
                 </TabsContent>
               </Tabs>
@@ -419,7 +513,7 @@ function ReceiptPageContent() {
                 </Button>
                 {commitment && blobId && policyId && (
                   <Button
-                    onClick={() => {
+                    onClick={async () => {
                       if (!account) {
                         toast({
                           title: "Wallet Not Connected",
@@ -442,13 +536,31 @@ function ReceiptPageContent() {
                         return
                       }
 
-                      const transaction = buildCreateReceiptTx({
-                        commitment,
-                        blobId,
-                        policyId,
-                        retentionDays,
-                        consentSigned: proofType === "consent",
-                      })
+                      let transaction
+                      try {
+                        const lifetime = await resolveReceiptLifetime()
+                        const features = await getPackageFeatures()
+                        if (!features.receiptEndEpoch) {
+                          console.warn("Package predates end-epoch receipts; creating one with a retention in days")
+                        }
+                        transaction = buildCreateReceiptTx(
+                          {
+                            commitment,
+                            blobId,
+                            policyId,
+                            ...lifetime,
+                            consentSigned: proofType === "consent",
+                          },
+                          features
+                        )
+                      } catch (error) {
+                        toast({
+                          title: "Transaction Failed",
+                          description: error instanceof Error ? error.message : "Failed to build receipt",
+                          variant: "destructive",
+                        })
+                        return
+                      }
 
                       signAndExecute(
                         {
@@ -524,6 +636,11 @@ function ReceiptPageContent() {
             </CardContent>
           </Card>
         )}
+
+        <PartialDisclosure commitment={commitment} />
+        <FolderProofs commitment={commitment} />
+        <ExpiringReceipts />
+        <ErasureRequests />
       </main>
     </div>
   )
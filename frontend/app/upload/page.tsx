@@ -1,8 +1,9 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect } from "react"
 import Link from "next/link"
 import { useDropzone } from "react-dropzone"
+import { useCurrentAccount } from "@mysten/dapp-kit"
 import {
   Upload,
   FileText,
@@ -24,14 +25,44 @@ import { Label } from "@/components/ui/label"
 import { Loader, ProgressBar } from "@/components/ui/loader"
 import { Badge } from "@/components/ui/badge"
 import { formatBytes, shortenHash } from "@/lib/utils"
-import { createCommitmentWithMetadata } from "@/lib/merkle"
-import { createPolicy, encryptWithSeal, serializeEnvelope, type SealPolicy } from "@/lib/seal"
-import { uploadToWalrus, daysToEpochs } from "@/lib/walrus"
+import { createCommitmentInWorker } from "@/lib/commitment-worker"
+import { DEFAULT_CDC_CHUNKING, FIXED_CHUNKING } from "@/lib/chunking"
+import { deleteMerkleTree, saveMerkleTree } from "@/lib/merkle-store"
+import { createPolicy, encryptAndSerializeWithSeal, type SealPolicy } from "@/lib/seal"
+import { uploadToWalrus, daysToEpochs, estimateStorageCost, MAX_SINGLE_BLOB_SIZE } from "@/lib/walrus"
+import { formatTokenAmount, reconcileCost, type StorageQuote } from "@/lib/walrus-pricing"
+import { getEpochInfo, epochsToDate, maxRetentionDays, type EpochInfo } from "@/lib/walrus-epochs"
+import { createSuiClient } from "@/lib/sui"
+import { formatEta, type TransferProgress } from "@/lib/progress"
+import {
+  deleteUploadJob,
+  isUploadJobStoreAvailable,
+  listUploadJobs,
+  loadUploadEnvelope,
+  saveUploadJob,
+  updateUploadJob,
+  type UploadJob,
+} from "@/lib/upload-jobs"
 import { toast } from "@/lib/use-toast"
+import { useEncryptionKey } from "@/lib/use-encryption-key"
+import { useCreateSealPolicy } from "@/lib/use-seal"
+import { isSealConfigured } from "@/lib/seal-client"
 import { WalletDisplay } from "@/components/WalletDisplay"
+import { QuiltUpload } from "@/components/QuiltUpload"
+import { EndpointSettings } from "@/components/EndpointSettings"
 
 type UploadStep = "select" | "configure" | "processing" | "complete"
 
+// Envelopes larger than a single Walrus blob are uploaded in chunks
+const MAX_FILE_SIZE = 512 * 1024 * 1024
+
+// Share of the progress bar covered by each processing stage
+const STAGE_RANGES = {
+  commitment: [0, 25],
+  encryption: [25, 50],
+  upload: [50, 100],
+} as const
+
 interface UploadResult {
   blobId: string
   commitment: string
@@ -42,19 +73,89 @@ interface UploadResult {
   retentionDays: number
   consentSigned: boolean
   timestamp: number
+  chunkCount: number
+  endEpoch: number
+  expiresAt: number
+  costFrost: bigint
+  quotedCostFrost?: bigint
+  costMatchesQuote?: boolean
 }
 
 export default function UploadPage() {
+  const account = useCurrentAccount()
+  const getEncryptionKey = useEncryptionKey()
+  const createSealPolicy = useCreateSealPolicy()
   const [step, setStep] = useState<UploadStep>("select")
   const [file, setFile] = useState<File | null>(null)
   const [retentionDays, setRetentionDays] = useState(30)
   const [consentSigned, setConsentSigned] = useState(false)
+  const [deletable, setDeletable] = useState(true)
+  const [contentDefinedChunking, setContentDefinedChunking] = useState(false)
+  // Other users' encryption public keys, comma or space separated
+  const [recipientKeys, setRecipientKeys] = useState("")
+  const [keyHolderKeys, setKeyHolderKeys] = useState("")
+  const [requiredApprovals, setRequiredApprovals] = useState(2)
   const [processing, setProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [statusMessage, setStatusMessage] = useState("")
+  const [transfer, setTransfer] = useState<TransferProgress | null>(null)
   const [result, setResult] = useState<UploadResult | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [copiedField, setCopiedField] = useState<string | null>(null)
+  const [quote, setQuote] = useState<StorageQuote | null>(null)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [epochInfo, setEpochInfo] = useState<EpochInfo | null>(null)
+  const [pendingJobs, setPendingJobs] = useState<UploadJob[]>([])
+
+  useEffect(() => {
+    getEpochInfo(createSuiClient())
+      .then(setEpochInfo)
+      .catch((err) => console.warn("Failed to load Walrus epoch info:", err))
+  }, [])
+
+  // Unfinished uploads from an earlier visit, offered for resume
+  const loadPendingJobs = useCallback(() => {
+    if (!isUploadJobStoreAvailable()) return
+    listUploadJobs()
+      .then(setPendingJobs)
+      .catch((err) => console.warn("Failed to load unfinished uploads:", err))
+  }, [])
+
+  useEffect(() => {
+    loadPendingJobs()
+  }, [loadPendingJobs])
+
+  const maxDays = epochInfo ? Math.max(1, maxRetentionDays(epochInfo)) : 365
+  const keyHolders = keyHolderKeys.split(/[\s,]+/).filter(Boolean)
+
+  // Walrus only stores a bounded number of epochs ahead
+  useEffect(() => {
+    setRetentionDays((days) => Math.min(days, maxDays))
+  }, [maxDays])
+  const epochs = epochInfo ? daysToEpochs(retentionDays, epochInfo) : null
+
+  // Re-quote whenever the file or retention changes
+  useEffect(() => {
+    if (!file || epochs === null) return
+
+    let cancelled = false
+    estimateStorageCost(file.size, epochs)
+      .then((q) => {
+        if (cancelled) return
+        setQuote(q)
+        setQuoteError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.warn("Failed to quote storage cost:", err)
+        setQuote(null)
+        setQuoteError(err instanceof Error ? err.message : "Pricing unavailable")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file, epochs])
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -67,102 +168,283 @@ export default function UploadPage() {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     maxFiles: 1,
-    maxSize: 10 * 1024 * 1024,
+    maxSize: MAX_FILE_SIZE,
   })
 
-  const handleUpload = async () => {
-    if (!file) return
+  // Map a stage's byte progress onto its share of the bar
+  const trackStage = (stage: keyof typeof STAGE_RANGES) => {
+    const [start, end] = STAGE_RANGES[stage]
+    setProgress(start)
+    setTransfer(null)
+    return (p: TransferProgress) => {
+      setTransfer(p)
+      if (p.total > 0) setProgress(start + ((end - start) * Math.min(p.loaded, p.total)) / p.total)
+    }
+  }
 
+  const startProcessing = () => {
     setProcessing(true)
     setStep("processing")
     setProgress(0)
     setError(null)
+  }
 
-    try {
-      setStatusMessage("Reading file...")
-      setProgress(10)
-      const fileBuffer = await file.arrayBuffer()
-      const fileData = new Uint8Array(fileBuffer)
+  const failUpload = (err: unknown) => {
+    console.error("Upload error:", err)
+    setError(err instanceof Error ? err.message : "Upload failed")
+    // Resumed jobs have no selected file to configure
+    setStep(file ? "configure" : "select")
+    loadPendingJobs()
+    toast({
+      title: "Upload Failed",
+      description: err instanceof Error ? err.message : "An error occurred",
+      variant: "destructive",
+    })
+  }
 
-      setStatusMessage("Creating Merkle commitment...")
-      setProgress(25)
-      const { commitment, combinedCommitment } = await createCommitmentWithMetadata(
-        fileData,
-        { retentionDays, consentSigned, timestamp: Date.now() }
+  // Upload stage onwards, shared by fresh and resumed jobs. Progress is
+  // written to the job as each chunk is stored.
+  const finishUpload = async (job: UploadJob, envelope: Uint8Array, persisted: boolean) => {
+    const info = epochInfo ?? (await getEpochInfo(createSuiClient()))
+
+    let uploadResult = job.result
+    if (!uploadResult) {
+      setStatusMessage(job.chunks.length > 0 ? "Resuming upload to Walrus..." : "Uploading to Walrus...")
+      uploadResult = await uploadToWalrus(envelope, job.epochs, {
+        chunkSize: job.chunkSize,
+        onProgress: trackStage("upload"),
+        deletable: job.deletable,
+        sendObjectTo: job.sendObjectTo,
+        completedChunks: job.chunks,
+        onChunk: async (chunk) => {
+          job.chunks = [...job.chunks, chunk]
+          if (!persisted) return
+          await updateUploadJob(job.id, { chunks: job.chunks }).catch((e) =>
+            console.warn("Failed to persist upload progress:", e)
+          )
+        },
+      })
+      if (persisted) {
+        await updateUploadJob(job.id, {
+          result: uploadResult,
+          completedStages: [...job.completedStages, "upload"],
+        }).catch((e) => console.warn("Failed to persist upload result:", e))
+      }
+    }
+    const expiresAt = epochsToDate(uploadResult.endEpoch, info).getTime()
+
+    setStatusMessage("Finalizing...")
+    setProgress(100)
+    setTransfer(null)
+
+    const reconciliation = quote ? reconcileCost(quote, uploadResult.cost) : null
+    if (reconciliation && !reconciliation.matches && uploadResult.cost > 0) {
+      console.warn(
+        `Walrus cost ${uploadResult.cost} FROST differs from quote ${quote!.totalFrost} FROST`
+      )
+    }
+
+    const uploadResult_data = {
+      blobId: uploadResult.blobId,
+      commitment: job.combinedCommitment,
+      policyId: job.policy.id,
+      fileHash: job.commitment,
+      fileName: job.fileName,
+      fileSize: job.fileSize,
+      retentionDays: job.retentionDays,
+      consentSigned: job.consentSigned,
+      timestamp: Date.now(),
+      chunkCount: uploadResult.chunks?.length ?? 1,
+      endEpoch: uploadResult.endEpoch,
+      expiresAt,
+      costFrost: BigInt(uploadResult.cost),
+      quotedCostFrost: quote?.totalFrost,
+      costMatchesQuote: reconciliation?.matches,
+    }
+
+    setResult(uploadResult_data)
+    setStep("complete")
+
+    // Store policy and blob info in localStorage for later decryption
+    try {
+      localStorage.setItem(
+        `zkStorage_${job.combinedCommitment}`,
+        JSON.stringify({
+          blobId: uploadResult.blobId,
+          blobDigest: uploadResult.digest,
+          blobObjectId: uploadResult.suiObjectId,
+          endEpoch: uploadResult.endEpoch,
+          expiresAt,
+          policyId: job.policy.id,
+          policy: job.policy,
+          fileRoot: job.commitment,
+          committedAt: job.committedAt,
+          chunking: job.chunking,
+          metadata: job.metadata,
+          metadataDigest: job.metadataDigest,
+          fileName: job.fileName,
+          fileSize: job.fileSize,
+        })
       )
+    } catch (e) {
+      console.warn("Failed to store policy in localStorage:", e)
+    }
 
+    if (persisted) {
+      await deleteUploadJob(job.id).catch((e) => console.warn("Failed to remove upload job:", e))
+    }
+
+    toast({
+      title: "Upload Complete",
+      description: "Your file has been encrypted and stored securely.",
+      variant: "success",
+    })
+  }
+
+  const handleUpload = async () => {
+    if (!file) return
+
+    startProcessing()
+
+    try {
+      const info = epochInfo ?? (await getEpochInfo(createSuiClient()))
+
+      // Key holders each get a share of the file key; a quorum can decrypt
+      if (keyHolders.length > 0 && (requiredApprovals < 1 || requiredApprovals > keyHolders.length)) {
+        throw new Error(`Required approvals must be between 1 and ${keyHolders.length}`)
+      }
+
+      // The policy ID is part of the commitment, so create the policy first
       setStatusMessage("Creating encryption policy...")
-      setProgress(40)
       const policy: SealPolicy = createPolicy({
-        type: "time-lock",
+        type: keyHolders.length > 0 ? "threshold" : "time-lock",
         retentionDays,
         consentRequired: consentSigned,
         consentSignature: consentSigned ? "user-consent-signature" : undefined,
+        threshold:
+          keyHolders.length > 0
+            ? { required: requiredApprovals, total: keyHolders.length, keyHolders }
+            : undefined,
       })
 
+      // The data key is encrypted with Seal under an on-chain policy object
+      // when key servers are configured, and otherwise wrapped to the
+      // owner's key, derived from a wallet signature
+      const extraRecipients = recipientKeys.split(/[\s,]+/).filter(Boolean)
+      let recipients: string[]
+      if (isSealConfigured()) {
+        setStatusMessage("Creating on-chain policy...")
+        policy.objectId = await createSealPolicy(policy)
+        recipients = extraRecipients
+      } else {
+        setStatusMessage("Deriving your encryption key...")
+        recipients = [(await getEncryptionKey()).publicKey, ...extraRecipients]
+      }
+
+      // Streamed from the file in a worker, so the UI stays responsive
+      setStatusMessage("Creating Merkle commitment...")
+      const {
+        commitment,
+        combinedCommitment,
+        timestamp: committedAt,
+        chunking,
+        metadata,
+        metadataDigest,
+        tree,
+      } = await createCommitmentInWorker(
+        file,
+        {
+          policyId: policy.id,
+          timestamp: Date.now(),
+          chunking: contentDefinedChunking ? DEFAULT_CDC_CHUNKING : FIXED_CHUNKING,
+          fileName: file.name,
+          mimeType: file.type || undefined,
+          owner: account?.address,
+        },
+        trackStage("commitment"),
+        true
+      )
+
+      // Kept so inclusion proofs don't need the file again
+      if (tree) {
+        await saveMerkleTree(combinedCommitment, tree).catch((e) =>
+          console.warn("Failed to store Merkle tree:", e)
+        )
+      }
+
       setStatusMessage("Encrypting data...")
-      setProgress(55)
-      const envelope = await encryptWithSeal(fileData, policy)
-      const serializedEnvelope = serializeEnvelope(envelope)
-
-      setStatusMessage("Uploading to Walrus...")
-      setProgress(75)
-      const epochs = daysToEpochs(retentionDays)
-      const uploadResult = await uploadToWalrus(serializedEnvelope, epochs)
-
-      setStatusMessage("Finalizing...")
-      setProgress(100)
-
-      const uploadResult_data = {
-        blobId: uploadResult.blobId,
-        commitment: combinedCommitment,
-        policyId: policy.id,
-        fileHash: commitment,
+      const serializedEnvelope = await encryptAndSerializeWithSeal(file, policy, recipients, trackStage("encryption"))
+
+      // Persist before uploading; from here on a reload resumes the job
+      // instead of re-encrypting under a new key
+      const now = Date.now()
+      const job: UploadJob = {
+        id: combinedCommitment,
         fileName: file.name,
         fileSize: file.size,
         retentionDays,
         consentSigned,
-        timestamp: Date.now(),
+        deletable,
+        sendObjectTo: account?.address,
+        epochs: daysToEpochs(retentionDays, info),
+        chunkSize: MAX_SINGLE_BLOB_SIZE,
+        commitment,
+        combinedCommitment,
+        committedAt,
+        chunking,
+        metadata,
+        metadataDigest,
+        policy,
+        envelopeSize: serializedEnvelope.length,
+        completedStages: ["commitment", "encryption"],
+        chunks: [],
+        createdAt: now,
+        updatedAt: now,
       }
-
-      setResult(uploadResult_data)
-      setStep("complete")
-
-      // Store policy and blob info in localStorage for later decryption
+      let persisted = false
       try {
-        localStorage.setItem(
-          `zkStorage_${combinedCommitment}`,
-          JSON.stringify({
-            blobId: uploadResult.blobId,
-            policyId: policy.id,
-            policy: policy,
-            fileName: file.name,
-            fileSize: file.size,
-          })
-        )
+        await saveUploadJob(job, serializedEnvelope)
+        persisted = true
       } catch (e) {
-        console.warn("Failed to store policy in localStorage:", e)
+        console.warn("Failed to persist upload job; it can't be resumed:", e)
       }
 
-      toast({
-        title: "Upload Complete",
-        description: "Your file has been encrypted and stored securely.",
-        variant: "success",
-      })
+      await finishUpload(job, serializedEnvelope, persisted)
     } catch (err) {
-      console.error("Upload error:", err)
-      setError(err instanceof Error ? err.message : "Upload failed")
-      setStep("configure")
-      toast({
-        title: "Upload Failed",
-        description: err instanceof Error ? err.message : "An error occurred",
-        variant: "destructive",
-      })
+      failUpload(err)
     } finally {
       setProcessing(false)
     }
   }
 
+  const handleResume = async (job: UploadJob) => {
+    startProcessing()
+    setProgress(STAGE_RANGES.encryption[1])
+    setStatusMessage("Restoring upload...")
+
+    try {
+      const envelope = await loadUploadEnvelope(job.id)
+      if (!envelope) {
+        throw new Error("The encrypted data for this upload is no longer stored")
+      }
+      await finishUpload(job, envelope, true)
+    } catch (err) {
+      failUpload(err)
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleDiscard = async (job: UploadJob) => {
+    try {
+      await deleteUploadJob(job.id)
+      await deleteMerkleTree(job.combinedCommitment)
+    } catch (e) {
+      console.warn("Failed to remove upload job:", e)
+    }
+    loadPendingJobs()
+  }
+
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text)
     setCopiedField(field)
@@ -170,12 +452,28 @@ export default function UploadPage() {
     toast({ title: "Copied", description: `${field} copied to clipboard` })
   }
 
+  const copyEncryptionKey = async () => {
+    try {
+      copyToClipboard((await getEncryptionKey()).publicKey, "Encryption key")
+    } catch (err) {
+      toast({
+        title: "Encryption Key Unavailable",
+        description: err instanceof Error ? err.message : "Failed to derive your encryption key",
+        variant: "destructive",
+      })
+    }
+  }
+
   const resetUpload = () => {
     setStep("select")
     setFile(null)
     setResult(null)
     setProgress(0)
+    setTransfer(null)
     setError(null)
+    setQuote(null)
+    setQuoteError(null)
+    loadPendingJobs()
   }
 
   const steps = ["select", "configure", "processing", "complete"]
@@ -243,6 +541,55 @@ export default function UploadPage() {
               <p className="text-sm text-zinc-500">Encrypt with Seal, store on Walrus</p>
             </div>
 
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-400">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <p className="text-xs">{error}</p>
+              </div>
+            )}
+
+            {/* Unfinished uploads */}
+            {pendingJobs.length > 0 && (
+              <Card className="border-amber-500/20 bg-amber-500/5">
+                <CardContent className="p-4 space-y-3">
+                  <p className="text-xs text-amber-400">
+                    Unfinished upload{pendingJobs.length === 1 ? "" : "s"} found. Resuming reuses the
+                    encrypted data and commitment, so no new key is generated.
+                  </p>
+                  {pendingJobs.map((job) => {
+                    const totalChunks =
+                      job.envelopeSize > job.chunkSize ? Math.ceil(job.envelopeSize / job.chunkSize) : 1
+                    return (
+                      <div key={job.id} className="flex items-center gap-3">
+                        <FileText className="w-4 h-4 text-zinc-500 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-white truncate">{job.fileName}</p>
+                          <p className="text-xs text-zinc-500">
+                            {formatBytes(job.fileSize)} ·{" "}
+                            {job.result
+                              ? "stored, not finalized"
+                              : `${job.chunks.length}/${totalChunks} chunk${totalChunks === 1 ? "" : "s"} stored`}{" "}
+                            · {new Date(job.updatedAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <Button size="sm" onClick={() => handleResume(job)} disabled={processing}>
+                          Resume
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDiscard(job)}
+                          disabled={processing}
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="border-zinc-800/60 bg-zinc-900/30">
               <CardContent className="p-0">
                 <div
@@ -260,10 +607,14 @@ export default function UploadPage() {
                   <p className="text-sm text-zinc-300 mb-1">
                     {isDragActive ? "Drop here" : "Drop a file or click to browse"}
                   </p>
-                  <p className="text-xs text-zinc-600">Max 10MB</p>
+                  <p className="text-xs text-zinc-600">Max {formatBytes(MAX_FILE_SIZE, 0)}</p>
                 </div>
               </CardContent>
             </Card>
+
+            <QuiltUpload />
+
+            <EndpointSettings />
           </div>
         )}
 
@@ -302,12 +653,21 @@ export default function UploadPage() {
                   <Input
                     type="number"
                     value={retentionDays}
-                    onChange={(e) => setRetentionDays(Math.max(1, parseInt(e.target.value) || 1))}
+                    onChange={(e) =>
+                      setRetentionDays(Math.min(maxDays, Math.max(1, parseInt(e.target.value) || 1)))
+                    }
                     min={1}
-                    max={365}
+                    max={maxDays}
                     className="bg-zinc-800/30 border-zinc-700/50"
                   />
-                  <p className="text-xs text-zinc-600">{daysToEpochs(retentionDays)} epochs on Walrus</p>
+                  <p className="text-xs text-zinc-600">
+                    {epochInfo && epochs !== null
+                      ? `${epochs} epochs on Walrus · available until ${epochsToDate(
+                          epochInfo.currentEpoch + epochs,
+                          epochInfo
+                        ).toLocaleDateString()} · max ${maxDays}d`
+                      : "Loading Walrus epoch info..."}
+                  </p>
                 </div>
 
                 {/* Consent */}
@@ -324,19 +684,122 @@ export default function UploadPage() {
                   </div>
                 </label>
 
+                {/* Erasure */}
+                <label className="flex items-start gap-3 p-3 rounded-lg bg-zinc-800/30 cursor-pointer hover:bg-zinc-800/40 transition-colors">
+                  <input
+                    type="checkbox"
+                    checked={deletable}
+                    onChange={(e) => setDeletable(e.target.checked)}
+                    className="mt-0.5 w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-cyan-500 focus:ring-cyan-500/50"
+                  />
+                  <div>
+                    <p className="text-sm text-white">Deletable (allows erasure)</p>
+                    <p className="text-xs text-zinc-500">
+                      {account
+                        ? "The Walrus blob object is sent to your wallet so you can delete it early"
+                        : "Connect a wallet to own the blob object; otherwise it can't be erased early"}
+                    </p>
+                  </div>
+                </label>
+
+                {/* Chunking */}
+                <label className="flex items-start gap-3 p-3 rounded-lg bg-zinc-800/30 cursor-pointer hover:bg-zinc-800/40 transition-colors">
+                  <input
+                    type="checkbox"
+                    checked={contentDefinedChunking}
+                    onChange={(e) => setContentDefinedChunking(e.target.checked)}
+                    className="mt-0.5 w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-cyan-500 focus:ring-cyan-500/50"
+                  />
+                  <div>
+                    <p className="text-sm text-white">Content-defined chunking</p>
+                    <p className="text-xs text-zinc-500">
+                      Edited versions of this file share most commitment leaves; partial disclosure needs fixed chunks
+                    </p>
+                  </div>
+                </label>
+
+                {/* Recipients */}
+                <div className="space-y-2">
+                  <Label className="text-xs text-zinc-400">Additional recipients (optional)</Label>
+                  <Input
+                    value={recipientKeys}
+                    onChange={(e) => setRecipientKeys(e.target.value)}
+                    placeholder="Encryption public keys, comma separated"
+                    className="bg-zinc-800/30 border-zinc-700/50 font-mono text-xs"
+                  />
+                  <p className="text-xs text-zinc-600">
+                    {isSealConfigured()
+                      ? "Seal key servers release the file key under your on-chain policy; it's also wrapped to these keys."
+                      : "The file key is wrapped to your wallet's encryption key and these; no one else can decrypt."}{" "}
+                    <button
+                      onClick={copyEncryptionKey}
+                      disabled={!account}
+                      className="text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+                    >
+                      Copy your encryption key
+                    </button>
+                  </p>
+                </div>
+
+                {/* Key holders */}
+                <div className="space-y-2">
+                  <Label className="text-xs text-zinc-400">Key holders (optional)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={keyHolderKeys}
+                      onChange={(e) => setKeyHolderKeys(e.target.value)}
+                      placeholder="Encryption public keys, comma separated"
+                      className="bg-zinc-800/30 border-zinc-700/50 font-mono text-xs"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      value={requiredApprovals}
+                      onChange={(e) => setRequiredApprovals(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-20 bg-zinc-800/30 border-zinc-700/50 text-xs"
+                      title="Approvals required"
+                    />
+                  </div>
+                  <p className="text-xs text-zinc-600">
+                    Each key holder gets one share of the file key; {requiredApprovals} of them must approve
+                    together to give an auditor access.
+                  </p>
+                </div>
+
                 {/* Summary */}
                 <div className="pt-4 border-t border-zinc-800/50">
                   <div className="flex items-center justify-between text-xs">
                     <span className="text-zinc-500">Policy</span>
-                    <span className="text-zinc-300">Time-lock · {retentionDays}d · {consentSigned ? "Consent" : "No consent"}</span>
+                    <span className="text-zinc-300">
+                      {keyHolders.length > 0 ? `Threshold ${requiredApprovals}/${keyHolders.length}` : "Time-lock"} ·{" "}
+                      {retentionDays}d · {consentSigned ? "Consent" : "No consent"}
+                    </span>
                   </div>
+                  <div className="flex items-center justify-between text-xs mt-2">
+                    <span className="text-zinc-500">Storage cost</span>
+                    <span className="text-zinc-300">
+                      {quote
+                        ? `~${formatTokenAmount(quote.totalFrost)} WAL + ~${formatTokenAmount(quote.gasMist)} SUI gas`
+                        : quoteError
+                          ? "Pricing unavailable"
+                          : "Quoting..."}
+                    </span>
+                  </div>
+                  {quote && (
+                    <p className="text-[10px] text-zinc-600 mt-1 text-right">
+                      {formatBytes(quote.encodedSize)} encoded · {quote.storageUnits} MiB units × {quote.epochs} epochs
+                    </p>
+                  )}
                 </div>
 
 
-                <Button onClick={handleUpload} className="w-full" disabled={processing}>
+                <Button onClick={handleUpload} className="w-full" disabled={processing || !account}>
                   <Lock className="w-4 h-4 mr-2" />
                   Encrypt & Upload
                 </Button>
+                {!account && (
+                  <p className="text-xs text-zinc-600 text-center">Connect a wallet to encrypt to your key</p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -363,13 +826,20 @@ export default function UploadPage() {
                       {statusMessage || "Processing..."}
                     </h2>
                     <ProgressBar progress={progress} showLabel className="max-w-md mx-auto" />
+                    {transfer && transfer.total > 0 && (
+                      <p className="text-xs text-zinc-500 font-mono">
+                        {formatBytes(transfer.loaded)} / {formatBytes(transfer.total)}
+                        {transfer.bytesPerSecond > 0 &&
+                          ` · ${formatBytes(transfer.bytesPerSecond)}/s · ${formatEta(transfer.etaMs)} left`}
+                      </p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-3 gap-8 pt-8">
                     {[
-                      { icon: FileText, label: "Creating Commitment", threshold: 25, color: "from-purple-500/20 to-purple-600/20" },
-                      { icon: Lock, label: "Encrypting Data", threshold: 55, color: "from-cyan-500/20 to-cyan-600/20" },
-                      { icon: Database, label: "Storing Securely", threshold: 100, color: "from-blue-500/20 to-blue-600/20" },
+                      { icon: FileText, label: "Creating Commitment", threshold: STAGE_RANGES.commitment[1], color: "from-purple-500/20 to-purple-600/20" },
+                      { icon: Lock, label: "Encrypting Data", threshold: STAGE_RANGES.encryption[1], color: "from-cyan-500/20 to-cyan-600/20" },
+                      { icon: Database, label: "Storing Securely", threshold: STAGE_RANGES.upload[1], color: "from-blue-500/20 to-blue-600/20" },
                     ].map(({ icon: Icon, label, threshold, color }) => (
                       <div key={label} className="text-center space-y-3">
                         <div className={`relative mx-auto w-16 h-16 rounded-2xl flex items-center justify-center transition-all duration-500 ${
@@ -460,7 +930,7 @@ export default function UploadPage() {
                   </Badge>
                   <Badge variant="outline" className="text-xs">
                     <Clock className="w-3 h-3 mr-1" />
-                    {result.retentionDays}d
+                    {result.retentionDays}d · epoch {result.endEpoch}
                   </Badge>
                   {result.consentSigned && (
                     <Badge variant="outline" className="text-xs">
@@ -468,6 +938,21 @@ export default function UploadPage() {
                       Consent
                     </Badge>
                   )}
+                  <Badge variant="outline" className="text-xs">
+                    {result.costFrost > BigInt(0)
+                      ? `${formatTokenAmount(result.costFrost)} WAL`
+                      : "Already stored"}
+                    {result.quotedCostFrost !== undefined &&
+                      result.costFrost > BigInt(0) &&
+                      !result.costMatchesQuote &&
+                      ` (quoted ${formatTokenAmount(result.quotedCostFrost)})`}
+                  </Badge>
+                  {result.chunkCount > 1 && (
+                    <Badge variant="outline" className="text-xs">
+                      <Database className="w-3 h-3 mr-1" />
+                      {result.chunkCount} chunks
+                    </Badge>
+                  )}
                 </div>
 
               </CardContent>
@@ -475,7 +960,7 @@ export default function UploadPage() {
 
 
             <div className="flex gap-3 pt-4">
-              <Link href={`/receipt?commitment=${result.commitment}&blobId=${result.blobId}&policyId=${result.policyId}`} className="flex-1">
+              <Link href={`/receipt?commitment=${result.commitment}&blobId=${result.blobId}&policyId=${result.policyId}&endEpoch=${result.endEpoch}`} className="flex-1">
                 <Button variant="outline" className="w-full">
                   Generate ZK Proof
                   <ArrowRight className="w-4 h-4 ml-2" />
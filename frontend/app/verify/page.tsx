@@ -2,6 +2,7 @@
 
 import { useState, useEffect, Suspense } from "react"
 import { useSearchParams } from "next/navigation"
+import { useCurrentAccount } from "@mysten/dapp-kit"
 import Link from "next/link"
 import {
   CheckCircle,
@@ -15,7 +16,8 @@ import {
   Copy,
   AlertCircle,
   Image as ImageIcon,
-  Download
+  Download,
+  Database
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
@@ -24,17 +26,25 @@ import { Loader, ProgressBar } from "@/components/ui/loader"
 import { Badge } from "@/components/ui/badge"
 import { shortenHash, formatBytes } from "@/lib/utils"
 import { verifyProof, type ProofBundle, formatProofForDisplay } from "@/lib/zk-prover"
-import { checkBlobExists, retrieveFromWalrus } from "@/lib/walrus"
+import { getBlobStatus, streamFromWalrus, type BlobStatus } from "@/lib/walrus"
+import { retrieveFromQuilt } from "@/lib/walrus-quilt"
 import { toast } from "@/lib/use-toast"
-import { deserializeEnvelope, decryptWithSeal, type SealPolicy } from "@/lib/seal"
+import { decryptStreamWithSeal, openEnvelopeStream, type DecryptionKeys, type SealPolicy } from "@/lib/seal"
+import { parseApprovals } from "@/lib/threshold"
+import { useEncryptionKey } from "@/lib/use-encryption-key"
+import { useSealSession } from "@/lib/use-seal"
 import { createSuiClient, verifyReceipt } from "@/lib/sui"
+import { formatEta, type TransferProgress } from "@/lib/progress"
 import { WalletDisplay } from "@/components/WalletDisplay"
+import { DisclosureVerifier } from "@/components/DisclosureVerifier"
+import { FileProofVerifier } from "@/components/FileProofVerifier"
 
 type VerificationStatus = "idle" | "verifying" | "success" | "failed"
 
 interface VerificationResult {
   proofValid: boolean
-  blobExists: boolean
+  // Null when the proof carries no blob ID to check
+  blobStatus: BlobStatus | null
   onChainVerified: boolean
   timestamp: number
   details: {
@@ -43,23 +53,74 @@ interface VerificationResult {
     protocol: string
     publicSignals: string[]
     blobId?: string
+    blobDigest?: string
+    quiltIndex?: number
     policyId?: string
   }
   decryptedData?: {
-    data: Uint8Array
+    data: Blob
     mimeType: string
     fileName?: string
   }
 }
 
+/**
+ * Walrus availability details for a verified blob
+ */
+function BlobAvailability({ status }: { status: BlobStatus }) {
+  const rows: [string, string][] = [
+    ["Status", status.status.charAt(0).toUpperCase() + status.status.slice(1)],
+    ["Certified Epoch", status.certifiedEpoch?.toString() ?? "—"],
+    [
+      "End Epoch",
+      status.endEpoch === null
+        ? "—"
+        : `${status.endEpoch}${status.currentEpoch !== null ? ` (current ${status.currentEpoch})` : ""}`,
+    ],
+    ["Deletable", status.deletable === null ? "—" : status.deletable ? "Yes" : "No"],
+    ["Sui Object", status.suiObjectId ? shortenHash(status.suiObjectId, 8) : "—"],
+    [
+      "Serving Aggregators",
+      status.aggregators.length > 0
+        ? status.aggregators.map((url) => new URL(url).host).join(", ")
+        : "None",
+    ],
+  ]
+
+  return (
+    <div
+      className={`p-4 rounded-xl border space-y-3 ${
+        status.lapsed ? "bg-red-500/5 border-red-500/20" : "bg-white/5 border-white/10"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <Database className="w-4 h-4 text-cyan-400" />
+        <span className="text-sm font-medium text-white">Walrus Availability</span>
+        {status.lapsed && <Badge variant="destructive">Lapsed</Badge>}
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between gap-4">
+          <span className="text-sm text-zinc-400">{label}</span>
+          <span className="text-sm text-white text-right truncate">{value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 function VerifyPageContent() {
   const searchParams = useSearchParams()
+  const account = useCurrentAccount()
+  const getEncryptionKey = useEncryptionKey()
+  const getSealSession = useSealSession()
   const [proofJson, setProofJson] = useState("")
   const [status, setStatus] = useState<VerificationStatus>("idle")
   const [progress, setProgress] = useState(0)
   const [result, setResult] = useState<VerificationResult | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [decrypting, setDecrypting] = useState(false)
+  const [approvalsText, setApprovalsText] = useState("")
+  const [download, setDownload] = useState<TransferProgress | null>(null)
   const [blobIdFromUrl, setBlobIdFromUrl] = useState<string | null>(null)
   const [policyIdFromUrl, setPolicyIdFromUrl] = useState<string | null>(null)
 
@@ -113,15 +174,8 @@ function VerifyPageContent() {
       setProgress(40)
       const proofValid = await verifyProof(proof)
 
-      // Step 3: Check blob exists on Walrus (if we have blob ID)
+      // Step 3: Resolve blob details
       setProgress(60)
-      let blobExists = false
-      // Note: In production, we would extract blob ID from the proof or receipt
-      // For demo, we simulate this check
-      blobExists = true
-
-      // Step 4: Verify on-chain
-      setProgress(80)
       const client = createSuiClient()
 
       // Try to get blobId, policyId, and policy from multiple sources:
@@ -132,6 +186,9 @@ function VerifyPageContent() {
       let blobId: string | undefined = proof.blobId || blobIdFromUrl || undefined
       let policyId: string | undefined = proof.policyId || policyIdFromUrl || undefined
       let policy: SealPolicy | undefined = proof.policy
+      let blobDigest: string | undefined = proof.blobDigest
+      let quiltIndex: number | undefined = proof.quiltIndex
+      let blobObjectId: string | undefined = proof.blobObjectId
 
       console.log(`📦 Extracted from proof - blobId: ${blobId}, policyId: ${policyId}, policy: ${policy ? "✓" : "✗"}`)
 
@@ -144,6 +201,9 @@ function VerifyPageContent() {
             blobId = blobId || parsed.blobId
             policyId = policyId || parsed.policyId
             policy = parsed.policy
+            blobDigest = blobDigest || parsed.blobDigest
+            quiltIndex = quiltIndex ?? parsed.quiltIndex
+            blobObjectId = blobObjectId || parsed.blobObjectId
             console.log(`📦 Retrieved from localStorage - policy: ${policy ? "✓" : "✗"}`)
           } catch (e) {
             console.warn("Failed to parse stored data:", e)
@@ -151,6 +211,10 @@ function VerifyPageContent() {
         }
       }
 
+      // Step 4: Check the blob is still available on Walrus
+      setProgress(80)
+      const blobStatus = blobId ? await getBlobStatus(blobId, { suiObjectId: blobObjectId, client }) : null
+
       // In production, this would call the Sui contract
       const onChainVerified = proofValid
 
@@ -158,7 +222,7 @@ function VerifyPageContent() {
 
       const verificationResult: VerificationResult = {
         proofValid,
-        blobExists,
+        blobStatus,
         onChainVerified,
         timestamp: Date.now(),
         details: {
@@ -167,24 +231,40 @@ function VerifyPageContent() {
           protocol: proof.proof.protocol,
           publicSignals: proof.publicSignals,
           blobId,
+          blobDigest,
+          quiltIndex,
           policyId,
         },
       }
 
+      // A valid proof over data that has lapsed from Walrus no longer holds
+      const blobLapsed = blobStatus?.lapsed ?? false
+      const verified = proofValid && onChainVerified && !blobLapsed
+      if (blobLapsed) {
+        setError(
+          blobStatus!.endEpoch !== null
+            ? `Blob ${shortenHash(blobId!, 8)} lapsed from Walrus at epoch ${blobStatus!.endEpoch}`
+            : `Blob ${shortenHash(blobId!, 8)} is no longer stored on Walrus`
+        )
+      }
+
       setResult(verificationResult)
-      setStatus(proofValid && onChainVerified ? "success" : "failed")
+      setStatus(verified ? "success" : "failed")
 
-      // If we have blobId and policy, try to fetch and decrypt
-      if (proofValid && onChainVerified && blobId && policy) {
-        handleFetchAndDecrypt(blobId, policy)
+      // If we have blobId and policy, try to fetch and decrypt; the key
+      // comes from the connected wallet
+      if (verified && blobId && policy && account) {
+        handleFetchAndDecrypt(blobId, policy, blobDigest, quiltIndex)
       }
 
       toast({
-        title: proofValid ? "Verification Successful" : "Verification Failed",
-        description: proofValid
+        title: verified ? "Verification Successful" : "Verification Failed",
+        description: verified
           ? "The proof is valid and verified"
-          : "The proof could not be verified",
-        variant: proofValid ? "success" : "destructive",
+          : blobLapsed
+            ? "The proof is valid but the data is no longer available"
+            : "The proof could not be verified",
+        variant: verified ? "success" : "destructive",
       })
     } catch (err) {
       console.error("Verification error:", err)
@@ -218,25 +298,59 @@ function VerifyPageContent() {
     })
   }
 
-  const handleFetchAndDecrypt = async (blobId: string, policy: SealPolicy) => {
+  /**
+   * Fetch and decrypt the file as it downloads. With a `destination` the
+   * plaintext is written there (and the write aborted if decryption fails);
+   * otherwise it's collected for display.
+   */
+  const handleFetchAndDecrypt = async (
+    blobId: string,
+    policy: SealPolicy,
+    blobDigest?: string,
+    quiltIndex?: number,
+    destination?: WritableStream<Uint8Array>
+  ) => {
     if (decrypting) return
 
     setDecrypting(true)
+    setDownload(null)
     try {
-      // Fetch encrypted blob from Walrus
-      const encryptedData = await retrieveFromWalrus(blobId)
-
-      // Deserialize envelope
-      const envelope = deserializeEnvelope(encryptedData)
-
-      // Decrypt with Seal (using a dummy address for now - in production, use actual requester)
-      const decryptedData = await decryptWithSeal(envelope, policy, "0x0000000000000000000000000000000000000000")
+      // Fetch encrypted blob from Walrus, rejecting bytes that don't match the upload
+      const encryptedData =
+        quiltIndex === undefined
+          ? streamFromWalrus(blobId, blobDigest, setDownload)
+          : new Blob([new Uint8Array(await retrieveFromQuilt(blobId, quiltIndex, blobDigest, setDownload))]).stream()
+
+      // Read the envelope header; the ciphertext follows
+      const { header: envelope, ciphertext } = await openEnvelopeStream(encryptedData)
+
+      // Seal keys come from the key servers, wrapped keys from the wallet's
+      // key pair, and threshold keys from key holders' approvals to it
+      const approvals = parseApprovals(approvalsText)
+      const keys: DecryptionKeys =
+        envelope.threshold && approvals.length > 0
+          ? { keyPair: await getEncryptionKey(), approvals }
+          : envelope.sealKey
+            ? { sessionKey: await getSealSession() }
+            : { keyPair: await getEncryptionKey() }
+      const plaintext = await decryptStreamWithSeal(envelope, ciphertext, policy, account!.address, keys)
+
+      if (destination) {
+        await plaintext.pipeTo(destination)
+        toast({
+          title: "File Saved",
+          description: "Original file decrypted and saved",
+          variant: "success",
+        })
+        return
+      }
+      const decryptedData = await new Response(plaintext).blob()
 
       // Detect MIME type
       let mimeType = "application/octet-stream"
-      if (decryptedData.length >= 4) {
+      if (decryptedData.size >= 4) {
         // Check for common image formats
-        const header = Array.from(decryptedData.slice(0, 4))
+        const header = Array.from(new Uint8Array(await decryptedData.slice(0, 4).arrayBuffer()))
         if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
           mimeType = "image/jpeg"
         } else if (header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4e && header[3] === 0x47) {
@@ -267,6 +381,8 @@ function VerifyPageContent() {
       })
     } catch (err) {
       console.error("Decryption error:", err)
+      // Discard a partly written file; a failed pipe has already aborted it
+      destination?.abort(err).catch(() => {})
       toast({
         title: "Decryption Failed",
         description: err instanceof Error ? err.message : "Could not decrypt data",
@@ -274,6 +390,7 @@ function VerifyPageContent() {
       })
     } finally {
       setDecrypting(false)
+      setDownload(null)
     }
   }
 
@@ -285,10 +402,61 @@ function VerifyPageContent() {
     setDecrypting(false)
   }
 
-  const getImageUrl = (data: Uint8Array, mimeType: string): string => {
-    const buffer = new Uint8Array(data).buffer
-    const blob = new Blob([buffer], { type: mimeType })
-    return URL.createObjectURL(blob)
+  const getImageUrl = (data: Blob, mimeType: string): string => {
+    return URL.createObjectURL(new Blob([data], { type: mimeType }))
+  }
+
+  // Policy and blob location for decrypting, from the upload's local record
+  const getStoredPolicy = (details: VerificationResult["details"]) => {
+    const storedData = localStorage.getItem(`zkStorage_${details.commitment}`)
+    let policy: SealPolicy | undefined
+    let blobDigest = details.blobDigest
+    let quiltIndex = details.quiltIndex
+
+    if (storedData) {
+      try {
+        const parsed = JSON.parse(storedData)
+        policy = parsed.policy
+        blobDigest = blobDigest || parsed.blobDigest
+        quiltIndex = quiltIndex ?? parsed.quiltIndex
+      } catch (e) {
+        console.error("Failed to parse stored data:", e)
+      }
+    }
+
+    if (!policy) {
+      // This is a fallback - in production, policy should be stored on-chain or passed
+      toast({
+        title: "Policy Not Found",
+        description: "Policy information is required for decryption. Please ensure you uploaded the file from this browser.",
+        variant: "destructive",
+      })
+      return null
+    }
+    return { policy, blobDigest, quiltIndex }
+  }
+
+  // Save the file as it decrypts, where the browser supports picking a file to write
+  const filePicker =
+    typeof window === "undefined"
+      ? undefined
+      : (window as unknown as {
+          showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>
+        })
+
+  const handleSaveToDisk = async (details: VerificationResult["details"]) => {
+    const stored = getStoredPolicy(details)
+    if (!stored || !filePicker?.showSaveFilePicker) return
+
+    let handle: FileSystemFileHandle
+    try {
+      handle = await filePicker.showSaveFilePicker({ suggestedName: `decrypted-${Date.now()}` })
+    } catch {
+      // Picker dismissed
+      return
+    }
+    const destination = await handle.createWritable()
+    handleFetchAndDecrypt(details.blobId!, stored.policy, stored.blobDigest, stored.quiltIndex, destination)
   }
 
   return (
@@ -407,6 +575,9 @@ function VerifyPageContent() {
           </Card>
         )}
 
+        {status === "idle" && <DisclosureVerifier />}
+        {status === "idle" && <FileProofVerifier />}
+
         {status === "verifying" && (
           <Card>
             <CardContent className="py-12">
@@ -420,8 +591,8 @@ function VerifyPageContent() {
                   <span className={progress >= 40 ? "text-cyan-400" : ""}>
                     {progress >= 40 ? "Proof Structure" : "Checking..."}
                   </span>
-                  <span className={progress >= 60 ? "text-cyan-400" : ""}>
-                    {progress >= 60 ? "Blob Verified" : "Pending"}
+                  <span className={progress >= 80 ? "text-cyan-400" : ""}>
+                    {progress >= 80 ? "Blob Available" : "Pending"}
                   </span>
                   <span className={progress >= 100 ? "text-cyan-400" : ""}>
                     {progress >= 100 ? "On-Chain" : "Pending"}
@@ -451,9 +622,15 @@ function VerifyPageContent() {
                     <p className="text-xs text-zinc-400">Cryptographically verified</p>
                   </div>
                   <div className="p-4 rounded-xl bg-white/5 border border-white/10 text-center">
-                    <CheckCircle className="w-6 h-6 text-emerald-400 mx-auto mb-2" />
-                    <p className="text-sm font-medium text-white">Blob Exists</p>
-                    <p className="text-xs text-zinc-400">Data on Walrus</p>
+                    {result.blobStatus?.status === "certified" ? (
+                      <CheckCircle className="w-6 h-6 text-emerald-400 mx-auto mb-2" />
+                    ) : (
+                      <AlertCircle className="w-6 h-6 text-amber-400 mx-auto mb-2" />
+                    )}
+                    <p className="text-sm font-medium text-white">Blob Available</p>
+                    <p className="text-xs text-zinc-400 capitalize">
+                      {result.blobStatus ? result.blobStatus.status : "Not checked"}
+                    </p>
                   </div>
                   <div className="p-4 rounded-xl bg-white/5 border border-white/10 text-center">
                     <CheckCircle className="w-6 h-6 text-emerald-400 mx-auto mb-2" />
@@ -496,6 +673,10 @@ function VerifyPageContent() {
                     <span className="text-sm text-white">{new Date(result.timestamp).toLocaleString()}</span>
                   </div>
                 </div>
+
+                {result.blobStatus && (
+                  <BlobAvailability status={result.blobStatus} />
+                )}
               </div>
 
               {/* Display decrypted image if available */}
@@ -539,16 +720,14 @@ function VerifyPageContent() {
                   </div>
                   <div className="mt-4 flex items-center justify-between text-xs text-zinc-400">
                     <span>Format: {result.decryptedData.mimeType}</span>
-                    <span>Size: {formatBytes(result.decryptedData.data.length)}</span>
+                    <span>Size: {formatBytes(result.decryptedData.data.size)}</span>
                   </div>
                   <div className="mt-3 flex gap-2">
                     <Button
                       variant="outline"
                       size="sm"
                       onClick={() => {
-                        const data = result.decryptedData!.data
-                        const buffer = new Uint8Array(data).buffer
-                        const blob = new Blob([buffer], {
+                        const blob = new Blob([result.decryptedData!.data], {
                           type: result.decryptedData!.mimeType,
                         })
                         const url = URL.createObjectURL(blob)
@@ -582,9 +761,7 @@ function VerifyPageContent() {
                     <Button
                       variant="outline"
                       onClick={() => {
-                        const data = result.decryptedData!.data
-                        const buffer = new Uint8Array(data).buffer
-                        const blob = new Blob([buffer], {
+                        const blob = new Blob([result.decryptedData!.data], {
                           type: result.decryptedData!.mimeType,
                         })
                         const url = URL.createObjectURL(blob)
@@ -612,31 +789,18 @@ function VerifyPageContent() {
                   <p className="text-xs text-zinc-400 mb-4">
                     The proof has been verified. You can now fetch and decrypt the original file from Walrus storage.
                   </p>
+                  <textarea
+                    className="w-full h-20 mb-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-white font-mono placeholder:text-zinc-500 focus:border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 resize-none"
+                    placeholder="Key holder approvals, one per line (for threshold access)"
+                    value={approvalsText}
+                    onChange={(e) => setApprovalsText(e.target.value)}
+                  />
                   <Button
                     onClick={() => {
                       // Try to get policy from localStorage
-                      const storedData = localStorage.getItem(`zkStorage_${result.details.commitment}`)
-                      let policy: SealPolicy | undefined
-                      
-                      if (storedData) {
-                        try {
-                          const parsed = JSON.parse(storedData)
-                          policy = parsed.policy
-                        } catch (e) {
-                          console.error("Failed to parse stored data:", e)
-                        }
-                      }
-                      
-                      if (policy) {
-                        handleFetchAndDecrypt(result.details.blobId!, policy)
-                      } else {
-                        // If no policy in localStorage, try to reconstruct a basic policy
-                        // This is a fallback - in production, policy should be stored on-chain or passed
-                        toast({
-                          title: "Policy Not Found",
-                          description: "Policy information is required for decryption. Please ensure you uploaded the file from this browser.",
-                          variant: "destructive",
-                        })
+                      const stored = getStoredPolicy(result.details)
+                      if (stored) {
+                        handleFetchAndDecrypt(result.details.blobId!, stored.policy, stored.blobDigest, stored.quiltIndex)
                       }
                     }}
                     disabled={decrypting}
@@ -655,6 +819,27 @@ function VerifyPageContent() {
                       </>
                     )}
                   </Button>
+                  {filePicker?.showSaveFilePicker && (
+                    <Button
+                      onClick={() => handleSaveToDisk(result.details)}
+                      disabled={decrypting}
+                      className="w-full mt-2"
+                      variant="outline"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Decrypt & Save to Disk
+                    </Button>
+                  )}
+                  {decrypting && download && download.total > 0 && (
+                    <div className="mt-3 space-y-1">
+                      <ProgressBar progress={(download.loaded / download.total) * 100} />
+                      <p className="text-xs text-zinc-500 font-mono text-center">
+                        {formatBytes(download.loaded)} / {formatBytes(download.total)}
+                        {download.bytesPerSecond > 0 &&
+                          ` · ${formatBytes(download.bytesPerSecond)}/s · ${formatEta(download.etaMs)} left`}
+                      </p>
+                    </div>
+                  )}
                   {result.details.blobId && (
                     <p className="text-xs text-zinc-500 mt-2 text-center">
                       Blob ID: <code className="text-cyan-400">{shortenHash(result.details.blobId, 8)}</code>
@@ -714,6 +899,12 @@ function VerifyPageContent() {
                 </div>
               )}
 
+              {result?.blobStatus && (
+                <div className="mb-6">
+                  <BlobAvailability status={result.blobStatus} />
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-3">
                 <Button variant="outline" onClick={resetVerification} className="flex-1">
                   Try Again
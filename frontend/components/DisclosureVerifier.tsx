@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle2, Download, FileSearch, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Loader } from "@/components/ui/loader"
+import { formatBytes, shortenHash } from "@/lib/utils"
+import {
+  parseDisclosure,
+  verifyDisclosure,
+  type Disclosure,
+  type DisclosureVerification,
+} from "@/lib/disclosure"
+import { bytesToHex } from "@/lib/merkle"
+
+// Longest excerpt shown inline
+const PREVIEW_BYTES = 2048
+
+/**
+ * Render an excerpt as text when it decodes cleanly, otherwise as hex
+ */
+function previewExcerpt(excerpt: Uint8Array): string {
+  const shown = excerpt.subarray(0, PREVIEW_BYTES)
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(shown)
+    if (!/[\u0000-\u0008\u000e-\u001f]/.test(text)) {
+      return text
+    }
+  } catch {
+    // Not UTF-8, fall through to hex
+  }
+  return bytesToHex(shown).replace(/(.{2})/g, "$1 ").trim()
+}
+
+/**
+ * Verify a partial disclosure exported from the receipt page
+ */
+export function DisclosureVerifier() {
+  const [disclosureJson, setDisclosureJson] = useState("")
+  const [expectedCommitment, setExpectedCommitment] = useState("")
+  const [verifying, setVerifying] = useState(false)
+  const [disclosure, setDisclosure] = useState<Disclosure | null>(null)
+  const [result, setResult] = useState<DisclosureVerification | null>(null)
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setDisclosureJson(await file.text())
+  }
+
+  const handleVerify = async () => {
+    setVerifying(true)
+    setResult(null)
+    setDisclosure(null)
+
+    try {
+      const parsed = parseDisclosure(disclosureJson)
+      setDisclosure(parsed)
+      setResult(await verifyDisclosure(parsed, expectedCommitment.trim() || undefined))
+    } catch (err) {
+      setResult({
+        valid: false,
+        commitmentMatches: false,
+        invalidChunks: [],
+        excerpt: null,
+        error: err instanceof Error ? err.message : "Invalid disclosure",
+      })
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const downloadExcerpt = () => {
+    if (!result?.excerpt || !disclosure) return
+    const blob = new Blob([result.excerpt as BlobPart])
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${disclosure.fileName ?? "excerpt"}.${disclosure.range.start}-${disclosure.range.end}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Verify Partial Disclosure</CardTitle>
+        <CardDescription>
+          Check that an excerpt belongs to a committed file without the rest of the file
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm text-zinc-400">Disclosure JSON</label>
+          <textarea
+            className="w-full h-32 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white font-mono placeholder:text-zinc-500 focus:border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 resize-none"
+            placeholder='{"format": "zkstorage-disclosure", ...}'
+            value={disclosureJson}
+            onChange={(e) => setDisclosureJson(e.target.value)}
+          />
+        </div>
+
+        <label className="flex items-center justify-center gap-3 p-4 rounded-xl border-2 border-dashed border-zinc-700 hover:border-cyan-500/50 hover:bg-white/[0.02] transition-all cursor-pointer">
+          <input type="file" accept=".json" onChange={handleFileUpload} className="hidden" />
+          <Upload className="w-5 h-5 text-cyan-400" />
+          <span className="text-sm text-zinc-400">Upload disclosure file (.json)</span>
+        </label>
+
+        <div className="space-y-2">
+          <label className="text-sm text-zinc-400">Expected Commitment (Optional)</label>
+          <Input
+            className="font-mono text-sm"
+            placeholder="Commitment from the on-chain receipt"
+            value={expectedCommitment}
+            onChange={(e) => setExpectedCommitment(e.target.value)}
+          />
+        </div>
+
+        <Button onClick={handleVerify} className="w-full" disabled={!disclosureJson.trim() || verifying}>
+          {verifying ? (
+            <Loader size="sm" />
+          ) : (
+            <>
+              <FileSearch className="w-4 h-4 mr-2" />
+              Verify Disclosure
+            </>
+          )}
+        </Button>
+
+        {result && !result.valid && (
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+            <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+            <p className="text-sm text-red-400">
+              {result.error}
+              {result.invalidChunks.length > 0 && ` (chunks ${result.invalidChunks.join(", ")})`}
+            </p>
+          </div>
+        )}
+
+        {result?.valid && result.excerpt && disclosure && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 p-4 rounded-xl bg-green-500/10 border border-green-500/20">
+              <CheckCircle2 className="w-5 h-5 text-green-400 shrink-0" />
+              <p className="text-sm text-green-400">
+                Bytes {disclosure.range.start}-{disclosure.range.end} of{" "}
+                {disclosure.fileName ?? "the file"} ({formatBytes(disclosure.fileSize)}) match commitment{" "}
+                {shortenHash(disclosure.commitment, 8)}
+              </p>
+            </div>
+            <pre className="max-h-64 overflow-auto rounded-xl bg-white/5 border border-white/10 p-4 text-xs text-zinc-300 whitespace-pre-wrap break-all">
+              {previewExcerpt(result.excerpt)}
+              {result.excerpt.length > PREVIEW_BYTES && "\n…"}
+            </pre>
+            <Button variant="outline" onClick={downloadExcerpt} className="w-full">
+              <Download className="w-4 h-4 mr-2" />
+              Download Excerpt
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { Server } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import {
+  getEndpointConfig,
+  getEndpointHealth,
+  getEndpointOverrides,
+  getWalrusNetwork,
+  resetEndpointHealth,
+  setEndpointOverrides,
+  type EndpointConfig,
+  type EndpointHealth,
+} from "@/lib/walrus-endpoints"
+import { toast } from "@/lib/use-toast"
+
+/**
+ * Parse one URL per line (or comma-separated), throwing on anything that
+ * isn't an http(s) URL
+ */
+function parseUrls(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((line) => line.trim().replace(/\/+$/, ""))
+    .filter(Boolean)
+    .map((url) => {
+      let parsed: URL
+      try {
+        parsed = new URL(url)
+      } catch {
+        throw new Error(`Not a URL: ${url}`)
+      }
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        throw new Error(`Not an http(s) URL: ${url}`)
+      }
+      return url
+    })
+}
+
+function describeHealth(health: EndpointHealth | undefined): string {
+  if (!health) return "not used yet"
+  if (health.openUntil > Date.now()) return `skipped until ${new Date(health.openUntil).toLocaleTimeString()}`
+  return `${Math.round(health.latencyMs)}ms, ${Math.round(health.failureRate * 100)}% failures`
+}
+
+/**
+ * Override the Walrus publishers and aggregators for this browser. Saved
+ * overrides take precedence over NEXT_PUBLIC_WALRUS_PUBLISHER/AGGREGATOR.
+ */
+export function EndpointSettings() {
+  const [open, setOpen] = useState(false)
+  const [publishers, setPublishers] = useState("")
+  const [aggregators, setAggregators] = useState("")
+  const [config, setConfig] = useState<EndpointConfig | null>(null)
+  const [health, setHealth] = useState<Record<string, EndpointHealth>>({})
+
+  const refresh = () => {
+    setConfig(getEndpointConfig())
+    setHealth(getEndpointHealth())
+  }
+
+  // Settings live in localStorage, so they're read when the panel opens
+  const handleToggle = () => {
+    if (!open) {
+      const overrides = getEndpointOverrides()
+      setPublishers(overrides.publishers?.join("\n") ?? "")
+      setAggregators(overrides.aggregators?.join("\n") ?? "")
+      refresh()
+    }
+    setOpen(!open)
+  }
+
+  const handleSave = () => {
+    try {
+      setEndpointOverrides({ publishers: parseUrls(publishers), aggregators: parseUrls(aggregators) })
+      refresh()
+      toast({ title: "Endpoints Saved", description: "Walrus requests will use the new endpoints", variant: "success" })
+    } catch (err) {
+      toast({
+        title: "Invalid Endpoint",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReset = () => {
+    setEndpointOverrides({})
+    resetEndpointHealth()
+    setPublishers("")
+    setAggregators("")
+    refresh()
+    toast({ title: "Endpoints Reset", description: "Using the configured defaults" })
+  }
+
+  const textareaClass =
+    "w-full h-20 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-white font-mono placeholder:text-zinc-500 focus:border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 resize-none"
+
+  return (
+    <Card className="border-zinc-800/60 bg-zinc-900/30">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            <Server className="w-4 h-4 text-cyan-400" />
+            Walrus endpoints
+          </span>
+          <button onClick={handleToggle} className="text-xs font-normal text-zinc-400 hover:text-zinc-200">
+            {open ? "Hide" : "Configure"}
+          </button>
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Publishers and aggregators for {getWalrusNetwork()}, tried healthiest first
+        </CardDescription>
+      </CardHeader>
+      {open && config && (
+        <CardContent className="space-y-4">
+          {(["publishers", "aggregators"] as const).map((kind) => (
+            <div key={kind} className="space-y-2">
+              <Label className="text-xs text-zinc-400">
+                {kind === "publishers" ? "Publishers" : "Aggregators"}, one per line (empty to use the defaults)
+              </Label>
+              <textarea
+                className={textareaClass}
+                placeholder={config[kind].join("\n")}
+                value={kind === "publishers" ? publishers : aggregators}
+                onChange={(e) => (kind === "publishers" ? setPublishers : setAggregators)(e.target.value)}
+              />
+              <ul className="space-y-1">
+                {config[kind].map((url) => (
+                  <li key={url} className="flex justify-between gap-2 text-xs font-mono">
+                    <span className="truncate text-zinc-300">{url}</span>
+                    <span className="shrink-0 text-zinc-500">{describeHealth(health[url])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button onClick={handleSave} className="flex-1" size="sm">
+              Save
+            </Button>
+            <Button onClick={handleReset} variant="outline" size="sm">
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,328 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit"
+import { Transaction } from "@mysten/sui/transactions"
+import { AlertCircle, CheckCircle, ExternalLink, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Loader } from "@/components/ui/loader"
+import { shortenHash } from "@/lib/utils"
+import {
+  buildEraseReceiptTx,
+  createSuiClient,
+  getExplorerUrl,
+  getReceiptsByOwner,
+  requirePackageFeature,
+  type StorageReceipt,
+} from "@/lib/sui"
+import {
+  addDeleteBlobCalls,
+  deleteLocalBlob,
+  findOwnedBlobObjects,
+  getUploadBlobIds,
+  type OwnedBlobObject,
+} from "@/lib/walrus"
+import { getWalrusNetwork } from "@/lib/walrus-endpoints"
+import { deleteMerkleTree } from "@/lib/merkle-store"
+import { toast } from "@/lib/use-toast"
+
+type ErasureStep = "review" | "confirm" | "erasing" | "done"
+
+interface ErasurePlan {
+  receipt: StorageReceipt
+  commitment: string
+  blobIds: string[]
+  // Deletable Blob objects owned by the wallet (empty on the local network)
+  objects: OwnedBlobObject[]
+  // Blobs that cannot be deleted by this wallet
+  blocked: string[]
+  // Set when the blob is a quilt shared with other files
+  quiltIndex?: number
+}
+
+const CONFIRM_PHRASE = "ERASE"
+
+/**
+ * Receipts store the commitment as UTF-8 bytes
+ */
+function receiptCommitment(receipt: StorageReceipt): string {
+  const value = receipt.commitment as unknown
+  return Array.isArray(value) ? new TextDecoder().decode(new Uint8Array(value)) : String(value)
+}
+
+export function ErasureRequests() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const [receipts, setReceipts] = useState<StorageReceipt[]>([])
+  const [loading, setLoading] = useState(false)
+  const [plan, setPlan] = useState<ErasurePlan | null>(null)
+  const [step, setStep] = useState<ErasureStep>("review")
+  const [planning, setPlanning] = useState(false)
+  const [confirmText, setConfirmText] = useState("")
+  const [txDigest, setTxDigest] = useState<string | null>(null)
+
+  const loadReceipts = useCallback(async () => {
+    if (!account) {
+      setReceipts([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      setReceipts(await getReceiptsByOwner(createSuiClient(), account.address))
+    } finally {
+      setLoading(false)
+    }
+  }, [account])
+
+  useEffect(() => {
+    loadReceipts()
+  }, [loadReceipts])
+
+  const closePlan = () => {
+    setPlan(null)
+    setStep("review")
+    setConfirmText("")
+    setTxDigest(null)
+  }
+
+  // Step 1: work out which Walrus blobs back the receipt and whether this
+  // wallet can delete them
+  const handleStart = async (receipt: StorageReceipt) => {
+    if (!account) return
+
+    closePlan()
+    setPlanning(true)
+    try {
+      const commitment = receiptCommitment(receipt)
+      let quiltIndex: number | undefined
+      let blobDigest: string | undefined
+      try {
+        const stored = localStorage.getItem(`zkStorage_${commitment}`)
+        if (stored) {
+          const parsed = JSON.parse(stored)
+          quiltIndex = parsed.quiltIndex
+          blobDigest = parsed.blobDigest
+        }
+      } catch (e) {
+        console.warn("Failed to read upload details from localStorage:", e)
+      }
+
+      const blobIds = await getUploadBlobIds(receipt.blobId, blobDigest)
+      let objects: OwnedBlobObject[] = []
+      let blocked: string[] = []
+
+      if (getWalrusNetwork() !== "local") {
+        const owned = await findOwnedBlobObjects(createSuiClient(), account.address, blobIds)
+        objects = owned.filter((obj) => obj.deletable)
+        const deletableIds = new Set(objects.map((obj) => obj.blobId))
+        blocked = blobIds.filter((id) => !deletableIds.has(id))
+      }
+
+      setPlan({ receipt, commitment, blobIds, objects, blocked, quiltIndex })
+      setStep("review")
+    } catch (err) {
+      console.error("Erasure planning error:", err)
+      toast({
+        title: "Erasure Unavailable",
+        description: err instanceof Error ? err.message : "Could not inspect the stored blob",
+        variant: "destructive",
+      })
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  // Step 3: delete the blob(s) and erase the receipt, recording evidence
+  const handleErase = async () => {
+    if (!plan || !account) return
+
+    setStep("erasing")
+    try {
+      let tx: Transaction
+      let evidence: string[]
+
+      await requirePackageFeature("receiptErasure")
+      if (getWalrusNetwork() === "local") {
+        evidence = []
+        for (const blobId of plan.blobIds) {
+          evidence.push(await deleteLocalBlob(blobId))
+        }
+        tx = new Transaction()
+      } else {
+        evidence = plan.objects.map((obj) => obj.objectId)
+        tx = new Transaction()
+        await addDeleteBlobCalls(tx, createSuiClient(), evidence, account.address)
+      }
+
+      // Blob deletion and receipt erasure land in one transaction on Sui
+      buildEraseReceiptTx({ receiptId: plan.receipt.id, evidence: evidence.join(",") }, tx)
+      const result = await signAndExecute({
+        transaction: tx as unknown as Parameters<typeof signAndExecute>[0]["transaction"],
+        chain: "sui:testnet",
+      })
+
+      try {
+        localStorage.removeItem(`zkStorage_${plan.commitment}`)
+      } catch (e) {
+        console.warn("Failed to remove upload details from localStorage:", e)
+      }
+      // The tree's leaf hashes are derived from the erased data too
+      await deleteMerkleTree(plan.commitment).catch((e) => console.warn("Failed to remove Merkle tree:", e))
+
+      setTxDigest(result.digest)
+      setStep("done")
+      toast({
+        title: "Data Erased",
+        description: "Blob deleted and erasure recorded in the compliance ledger",
+        variant: "success",
+      })
+      await loadReceipts()
+    } catch (err) {
+      console.error("Erasure error:", err)
+      setStep("confirm")
+      toast({
+        title: "Erasure Failed",
+        description: err instanceof Error ? err.message : "Failed to erase data",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (!account || (!loading && receipts.length === 0 && !plan)) {
+    return null
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Right to Erasure</CardTitle>
+        <CardDescription>
+          Delete stored data from Walrus and record the erasure in the compliance ledger
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && receipts.length === 0 && <Loader size="sm" className="mx-auto" />}
+
+        {!plan &&
+          receipts.map((receipt) => (
+            <div
+              key={receipt.id}
+              className="flex items-center gap-4 p-4 rounded-xl bg-white/5 border border-white/10"
+            >
+              <div className="flex-1 min-w-0">
+                <code className="text-xs text-cyan-400 font-mono">{shortenHash(receipt.blobId, 8)}</code>
+                <p className="text-xs text-zinc-400">
+                  Stored until {new Date(receipt.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleStart(receipt)}
+                disabled={planning}
+              >
+                {planning ? <Loader size="sm" /> : <Trash2 className="w-4 h-4" />}
+              </Button>
+            </div>
+          ))}
+
+        {plan && step === "review" && (
+          <div className="space-y-4 p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-white">
+              Erasing receipt <code className="text-cyan-400">{shortenHash(plan.receipt.id, 6)}</code>{" "}
+              deletes {plan.blobIds.length} Walrus blob{plan.blobIds.length === 1 ? "" : "s"}:
+            </p>
+            <ul className="space-y-1">
+              {plan.blobIds.map((blobId) => (
+                <li key={blobId} className="flex items-center gap-2 text-xs">
+                  {plan.blocked.includes(blobId) ? (
+                    <AlertCircle className="w-3 h-3 text-red-400" />
+                  ) : (
+                    <CheckCircle className="w-3 h-3 text-emerald-400" />
+                  )}
+                  <code className="text-zinc-300">{shortenHash(blobId, 8)}</code>
+                </li>
+              ))}
+            </ul>
+
+            {plan.quiltIndex !== undefined && (
+              <p className="text-xs text-amber-400">
+                This file was uploaded in a batch. Deleting the blob also removes the other files
+                packed with it.
+              </p>
+            )}
+
+            {plan.blocked.length > 0 ? (
+              <p className="text-xs text-red-400">
+                {plan.blocked.length} blob{plan.blocked.length === 1 ? " is" : "s are"} not a deletable
+                blob owned by this wallet, so the data can&apos;t be erased early. It stays encrypted on
+                Walrus until its end epoch ({plan.receipt.endEpoch}).
+              </p>
+            ) : (
+              <Button onClick={() => setStep("confirm")} className="w-full">
+                Continue
+              </Button>
+            )}
+            <Button variant="ghost" onClick={closePlan} className="w-full">
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {plan && step === "confirm" && (
+          <div className="space-y-4 p-4 rounded-xl bg-red-500/5 border border-red-500/20">
+            <p className="text-sm text-white">
+              This permanently deletes the data and the receipt. Type{" "}
+              <code className="text-red-400">{CONFIRM_PHRASE}</code> to confirm.
+            </p>
+            <Input value={confirmText} onChange={(e) => setConfirmText(e.target.value)} />
+            <Button
+              onClick={handleErase}
+              disabled={confirmText !== CONFIRM_PHRASE}
+              className="w-full bg-red-600 hover:bg-red-500"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Erase Data
+            </Button>
+            <Button variant="ghost" onClick={closePlan} className="w-full">
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {plan && step === "erasing" && (
+          <div className="flex items-center justify-center gap-3 p-6">
+            <Loader size="sm" />
+            <span className="text-sm text-zinc-400">Deleting blobs and recording erasure...</span>
+          </div>
+        )}
+
+        {plan && step === "done" && (
+          <div className="space-y-3 p-4 rounded-xl bg-emerald-500/5 border border-emerald-500/20">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-emerald-400" />
+              <p className="text-sm text-white">Erasure recorded in the compliance ledger</p>
+            </div>
+            {txDigest && (
+              <a
+                href={getExplorerUrl("tx", txDigest)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                Evidence transaction {shortenHash(txDigest, 8)}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+            <Button variant="ghost" onClick={closePlan} className="w-full">
+              Done
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit"
+import { Clock, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Loader } from "@/components/ui/loader"
+import { shortenHash } from "@/lib/utils"
+import {
+  buildRenewReceiptTx,
+  createSuiClient,
+  getReceiptsByOwner,
+  isNearingExpiry,
+  requirePackageFeature,
+  type StorageReceipt,
+} from "@/lib/sui"
+import { Transaction } from "@mysten/sui/transactions"
+import {
+  addExtendBlobCalls,
+  extendBlob,
+  findOwnedBlobObjects,
+  getUploadBlobIds,
+  selectExtendableBlobObjects,
+} from "@/lib/walrus"
+import { getWalrusNetwork } from "@/lib/walrus-endpoints"
+import { getEpochInfo, epochsToDate } from "@/lib/walrus-epochs"
+import { toast } from "@/lib/use-toast"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function ExpiringReceipts() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const [receipts, setReceipts] = useState<StorageReceipt[]>([])
+  const [loading, setLoading] = useState(false)
+  const [renewingId, setRenewingId] = useState<string | null>(null)
+  const [extensionDays, setExtensionDays] = useState<Record<string, number>>({})
+
+  const loadReceipts = useCallback(async () => {
+    if (!account) {
+      setReceipts([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      const owned = await getReceiptsByOwner(createSuiClient(), account.address)
+      setReceipts(owned.filter((receipt) => isNearingExpiry(receipt)))
+    } finally {
+      setLoading(false)
+    }
+  }, [account])
+
+  useEffect(() => {
+    loadReceipts()
+  }, [loadReceipts])
+
+  const handleRenew = async (receipt: StorageReceipt) => {
+    if (!account) return
+    const additionalDays = extensionDays[receipt.id] ?? 30
+    setRenewingId(receipt.id)
+
+    try {
+      const client = createSuiClient()
+      await requirePackageFeature("receiptRenewal", client)
+      const info = await getEpochInfo(client)
+      const additionalEpochs = Math.max(1, Math.ceil((additionalDays * DAY_MS) / info.epochDurationMs))
+
+      // Blob objects the wallet owns are extended in place, in the renewal
+      // transaction; otherwise the blob is re-stored, keeping it deletable
+      // and owned by the wallet so it can still be erased
+      const blobIds = await getUploadBlobIds(receipt.blobId)
+      const owned =
+        getWalrusNetwork() === "local" ? [] : await findOwnedBlobObjects(client, account.address, blobIds)
+      const extendable = selectExtendableBlobObjects(owned, blobIds, info.currentEpoch)
+      const transaction = new Transaction()
+      let newEndEpoch: number
+
+      if (extendable) {
+        newEndEpoch = Math.min(...extendable.map((obj) => obj.endEpoch)) + additionalEpochs
+        if (newEndEpoch - info.currentEpoch > info.maxEpochsAhead) {
+          throw new Error(`Walrus stores at most ${info.maxEpochsAhead} epochs ahead`)
+        }
+        await addExtendBlobCalls(
+          transaction,
+          client,
+          extendable.map((obj) => obj.objectId),
+          additionalEpochs,
+          account.address
+        )
+      } else {
+        const extended = await extendBlob(
+          receipt.blobId,
+          additionalEpochs,
+          {
+            endEpoch: receipt.endEpoch,
+            deletable: owned.some((obj) => obj.deletable),
+            sendObjectTo: account.address,
+          },
+          client
+        )
+        newEndEpoch = extended.endEpoch
+      }
+
+      buildRenewReceiptTx(
+        {
+          receiptId: receipt.id,
+          newEndEpoch,
+          newExpiresAt: epochsToDate(newEndEpoch, info).getTime(),
+        },
+        transaction
+      )
+      await signAndExecute({
+        transaction: transaction as unknown as Parameters<typeof signAndExecute>[0]["transaction"],
+        chain: "sui:testnet",
+      })
+
+      toast({
+        title: "Receipt Renewed",
+        description: `Storage extended by ${additionalDays} days`,
+        variant: "success",
+      })
+      await loadReceipts()
+    } catch (err) {
+      console.error("Renewal error:", err)
+      toast({
+        title: "Renewal Failed",
+        description: err instanceof Error ? err.message : "Failed to renew receipt",
+        variant: "destructive",
+      })
+    } finally {
+      setRenewingId(null)
+    }
+  }
+
+  if (!account || (!loading && receipts.length === 0)) {
+    return null
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Expiring Receipts</CardTitle>
+            <CardDescription>
+              Extend Walrus storage and receipt expiry before your records lapse
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={loadReceipts} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && receipts.length === 0 && <Loader size="sm" className="mx-auto" />}
+        {receipts.map((receipt) => (
+          <div
+            key={receipt.id}
+            className="flex items-center gap-4 p-4 rounded-xl bg-white/5 border border-white/10"
+          >
+            <Clock className="w-5 h-5 text-amber-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <code className="text-xs text-cyan-400 font-mono">{shortenHash(receipt.blobId, 8)}</code>
+              <p className="text-xs text-zinc-400">
+                Expires {new Date(receipt.expiresAt).toLocaleString()}
+              </p>
+            </div>
+            <Input
+              type="number"
+              min={1}
+              value={extensionDays[receipt.id] ?? 30}
+              onChange={(e) =>
+                setExtensionDays((prev) => ({
+                  ...prev,
+                  [receipt.id]: Math.max(1, parseInt(e.target.value) || 1),
+                }))
+              }
+              className="w-20"
+            />
+            <Button
+              size="sm"
+              onClick={() => handleRenew(receipt)}
+              disabled={renewingId !== null}
+            >
+              {renewingId === receipt.id ? <Loader size="sm" /> : "Renew"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
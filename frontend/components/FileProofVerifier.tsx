@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle2, FileCheck, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Loader } from "@/components/ui/loader"
+import { formatBytes, shortenHash } from "@/lib/utils"
+import {
+  parseFileProof,
+  verifyFileProof,
+  type FileInclusionProof,
+  type FileProofVerification,
+} from "@/lib/folder-commitment"
+
+/**
+ * Verify that a file belongs to a folder receipt, from a file proof
+ * exported on the receipt page
+ */
+export function FileProofVerifier() {
+  const [proofJson, setProofJson] = useState("")
+  const [file, setFile] = useState<File | null>(null)
+  const [expectedCommitment, setExpectedCommitment] = useState("")
+  const [verifying, setVerifying] = useState(false)
+  const [fileProof, setFileProof] = useState<FileInclusionProof | null>(null)
+  const [result, setResult] = useState<FileProofVerification | null>(null)
+
+  const handleProofUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    if (!selected) return
+    setProofJson(await selected.text())
+  }
+
+  const handleVerify = async () => {
+    setVerifying(true)
+    setResult(null)
+    setFileProof(null)
+
+    try {
+      const parsed = parseFileProof(proofJson)
+      setFileProof(parsed)
+      setResult(await verifyFileProof(parsed, file ?? undefined, expectedCommitment.trim() || undefined))
+    } catch (err) {
+      setResult({
+        valid: false,
+        commitmentMatches: false,
+        error: err instanceof Error ? err.message : "Invalid file proof",
+      })
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Verify Folder File</CardTitle>
+        <CardDescription>
+          Check that a file is part of a folder receipt without access to the other files
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm text-zinc-400">File Proof JSON</label>
+          <textarea
+            className="w-full h-32 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white font-mono placeholder:text-zinc-500 focus:border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 resize-none"
+            placeholder='{"format": "zkstorage-folder-proof", ...}'
+            value={proofJson}
+            onChange={(e) => setProofJson(e.target.value)}
+          />
+        </div>
+
+        <label className="flex items-center justify-center gap-3 p-4 rounded-xl border-2 border-dashed border-zinc-700 hover:border-cyan-500/50 hover:bg-white/[0.02] transition-all cursor-pointer">
+          <input type="file" accept=".json" onChange={handleProofUpload} className="hidden" />
+          <Upload className="w-5 h-5 text-cyan-400" />
+          <span className="text-sm text-zinc-400">Upload file proof (.json)</span>
+        </label>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm text-zinc-400">File to Check (Optional)</label>
+            <Input type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm text-zinc-400">Expected Commitment (Optional)</label>
+            <Input
+              className="font-mono text-sm"
+              placeholder="Commitment from the on-chain receipt"
+              value={expectedCommitment}
+              onChange={(e) => setExpectedCommitment(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleVerify} className="w-full" disabled={!proofJson.trim() || verifying}>
+          {verifying ? (
+            <Loader size="sm" />
+          ) : (
+            <>
+              <FileCheck className="w-4 h-4 mr-2" />
+              Verify File Proof
+            </>
+          )}
+        </Button>
+
+        {result && !result.valid && (
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+            <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+            <p className="text-sm text-red-400">{result.error}</p>
+          </div>
+        )}
+
+        {result?.valid && fileProof && (
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-green-500/10 border border-green-500/20">
+            <CheckCircle2 className="w-5 h-5 text-green-400 shrink-0" />
+            <p className="text-sm text-green-400">
+              {fileProof.entry.path} ({formatBytes(fileProof.entry.size)}) is part of the folder committed as{" "}
+              {shortenHash(fileProof.commitment, 8)}
+              {result.fileMatches ? ", and the selected file matches it" : ""}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download, FolderTree } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Loader } from "@/components/ui/loader"
+import { formatBytes } from "@/lib/utils"
+import {
+  createFolderCommitment,
+  generateFileProof,
+  serializeFileProof,
+  type FolderEntry,
+} from "@/lib/folder-commitment"
+import { toast } from "@/lib/use-toast"
+
+interface FolderProofsProps {
+  // Folder upload commitment
+  commitment: string
+}
+
+interface FolderRecord {
+  entries: FolderEntry[]
+  policyId: string
+  committedAt: number
+  metadataDigest: string
+}
+
+/**
+ * Export per-file inclusion proofs for a folder receipt, so an auditor can
+ * check one file without the others
+ */
+export function FolderProofs({ commitment }: FolderProofsProps) {
+  const [record, setRecord] = useState<FolderRecord | null>(null)
+  const [exportingPath, setExportingPath] = useState<string | null>(null)
+
+  useEffect(() => {
+    setRecord(null)
+    if (!commitment) return
+
+    try {
+      const storedData = localStorage.getItem(`zkStorage_${commitment}`)
+      const stored = storedData ? JSON.parse(storedData) : null
+      if (Array.isArray(stored?.folder) && stored.committedAt && stored.metadataDigest) {
+        setRecord({
+          entries: stored.folder,
+          policyId: stored.policyId || stored.policy?.id,
+          committedAt: stored.committedAt,
+          metadataDigest: stored.metadataDigest,
+        })
+      }
+    } catch (e) {
+      console.warn("Failed to read folder commitment from localStorage:", e)
+    }
+  }, [commitment])
+
+  const handleExport = async (path: string) => {
+    if (!record) return
+
+    setExportingPath(path)
+    try {
+      // Rebuilding the folder tree only hashes the entries, not the files
+      const folder = await createFolderCommitment(record.entries)
+      const proof = await generateFileProof(folder, path, {
+        commitment,
+        policyId: record.policyId,
+        committedAt: record.committedAt,
+        metadataDigest: record.metadataDigest,
+      })
+
+      const blob = new Blob([serializeFileProof(proof)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `zk-file-proof-${path.replace(/[^\w.-]+/g, "_")}.json`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("File proof error:", err)
+      toast({
+        title: "Proof Export Failed",
+        description: err instanceof Error ? err.message : "Failed to create file proof",
+        variant: "destructive",
+      })
+    } finally {
+      setExportingPath(null)
+    }
+  }
+
+  if (!record) {
+    return null
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Folder Files</CardTitle>
+        <CardDescription>
+          This receipt covers {record.entries.length} files. Export a proof to show one file belongs to the
+          folder without revealing the others.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {record.entries.map((entry) => (
+          <div
+            key={entry.path}
+            className="flex items-center gap-4 p-3 rounded-xl bg-white/5 border border-white/10"
+          >
+            <FolderTree className="w-4 h-4 text-cyan-400 shrink-0" />
+            <span className="flex-1 min-w-0 truncate text-sm text-white">{entry.path}</span>
+            <span className="text-xs text-zinc-400">{formatBytes(entry.size)}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleExport(entry.path)}
+              disabled={exportingPath !== null}
+            >
+              {exportingPath === entry.path ? <Loader size="sm" /> : <Download className="w-4 h-4" />}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
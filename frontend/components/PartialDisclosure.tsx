@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { FileText, Share2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader } from "@/components/ui/loader"
+import { createDisclosure, serializeDisclosure } from "@/lib/disclosure"
+import { COMMITMENT_CHUNK_SIZE } from "@/lib/merkle"
+import { loadMerkleTree } from "@/lib/merkle-store"
+import { toast } from "@/lib/use-toast"
+
+interface PartialDisclosureProps {
+  // Upload commitment the excerpt is proven against
+  commitment: string
+}
+
+/**
+ * Export a byte range of an uploaded file with inclusion proofs, so it can
+ * be shared without the rest of the file
+ */
+export function PartialDisclosure({ commitment }: PartialDisclosureProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [start, setStart] = useState(0)
+  const [end, setEnd] = useState(0)
+  const [exporting, setExporting] = useState(false)
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null
+    setFile(selected)
+    setStart(0)
+    setEnd(selected?.size ?? 0)
+  }
+
+  const handleExport = async () => {
+    if (!file) return
+
+    setExporting(true)
+    try {
+      // The receipt inputs are only known to the uploader's browser
+      const storedData = localStorage.getItem(`zkStorage_${commitment}`)
+      const stored = storedData ? JSON.parse(storedData) : null
+      if (!stored?.committedAt || !stored.metadataDigest || !(stored.policyId || stored.policy?.id)) {
+        throw new Error("No upload record for this commitment in this browser")
+      }
+
+      // With the tree kept at upload only the disclosed chunks are hashed
+      const tree = await loadMerkleTree(commitment).catch((e) => {
+        console.warn("Failed to load stored Merkle tree, hashing the whole file:", e)
+        return null
+      })
+      const disclosure = await createDisclosure(
+        file,
+        { start, end },
+        {
+          commitment,
+          policyId: stored.policyId || stored.policy.id,
+          committedAt: stored.committedAt,
+          metadataDigest: stored.metadataDigest,
+          chunking: stored.chunking,
+          fileName: stored.fileName ?? file.name,
+        },
+        tree
+      )
+
+      const blob = new Blob([serializeDisclosure(disclosure)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `zk-disclosure-${start}-${end}-${Date.now()}.json`
+      a.click()
+      URL.revokeObjectURL(url)
+
+      toast({
+        title: "Disclosure Exported",
+        description: `${disclosure.chunks.length} chunk(s) with inclusion proofs`,
+        variant: "success",
+      })
+    } catch (err) {
+      console.error("Disclosure error:", err)
+      toast({
+        title: "Disclosure Failed",
+        description: err instanceof Error ? err.message : "Failed to create disclosure",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  if (!commitment) {
+    return null
+  }
+
+  const rangeValid = file !== null && start >= 0 && end > start && end <= file.size
+  const revealedStart = Math.floor(start / COMMITMENT_CHUNK_SIZE) * COMMITMENT_CHUNK_SIZE
+  const revealedEnd = file
+    ? Math.min(Math.ceil(end / COMMITMENT_CHUNK_SIZE) * COMMITMENT_CHUNK_SIZE, file.size)
+    : 0
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Partial Disclosure</CardTitle>
+        <CardDescription>
+          Share a byte range of the original file with proofs that it belongs to this commitment
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Original File</Label>
+          <Input type="file" onChange={handleFileSelect} />
+          {file && (
+            <p className="flex items-center gap-2 text-xs text-zinc-400">
+              <FileText className="w-3 h-3" />
+              {file.name} ({file.size} bytes)
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Start byte</Label>
+            <Input
+              type="number"
+              min={0}
+              value={start}
+              onChange={(e) => setStart(Math.max(0, parseInt(e.target.value) || 0))}
+              disabled={!file}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>End byte (exclusive)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={end}
+              onChange={(e) => setEnd(Math.max(0, parseInt(e.target.value) || 0))}
+              disabled={!file}
+            />
+          </div>
+        </div>
+
+        {rangeValid && (
+          <p className="text-xs text-zinc-400">
+            Proofs cover whole {COMMITMENT_CHUNK_SIZE / 1024} KB chunks, so bytes {revealedStart}-{revealedEnd} will be
+            revealed to the verifier.
+          </p>
+        )}
+
+        <Button onClick={handleExport} disabled={!rangeValid || exporting} className="w-full">
+          {exporting ? (
+            <Loader size="sm" />
+          ) : (
+            <>
+              <Share2 className="w-4 h-4 mr-2" />
+              Export Disclosure
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,384 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { useDropzone } from "react-dropzone"
+import { useCurrentAccount } from "@mysten/dapp-kit"
+import { Layers, Lock, ArrowRight, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ProgressBar } from "@/components/ui/loader"
+import { formatBytes, shortenHash } from "@/lib/utils"
+import { commitToPolicy, createCommitmentWithMetadata } from "@/lib/merkle"
+import { createFolderCommitment, type FolderCommitment } from "@/lib/folder-commitment"
+import { createPolicy, encryptWithSeal, serializeEnvelope } from "@/lib/seal"
+import { daysToEpochs } from "@/lib/walrus"
+import { uploadQuilt, QUILT_MAX_ENTRIES, QUILT_MAX_ENTRY_SIZE, type QuiltFile } from "@/lib/walrus-quilt"
+import { getEpochInfo, epochsToDate, maxRetentionDays, type EpochInfo } from "@/lib/walrus-epochs"
+import { createSuiClient } from "@/lib/sui"
+import { toast } from "@/lib/use-toast"
+import { useEncryptionKey } from "@/lib/use-encryption-key"
+import { useCreateSealPolicy } from "@/lib/use-seal"
+import { isSealConfigured } from "@/lib/seal-client"
+
+// Leave room for the envelope header and AES-GCM tag
+const MAX_PACKED_FILE_SIZE = QUILT_MAX_ENTRY_SIZE - 4 * 1024
+
+interface PackedFile {
+  fileName: string
+  fileSize: number
+  quiltIndex: number
+  commitment: string
+  fileRoot: string
+  committedAt: number
+  metadata: string
+  metadataDigest: string
+}
+
+interface QuiltResult {
+  blobId: string
+  policyId: string
+  endEpoch: number
+  files: PackedFile[]
+  // Commitment covering all the files, when packed as a folder
+  folderCommitment?: string
+}
+
+// Dropzone keeps the relative path of files from a dropped directory
+function relativePath(file: File): string {
+  return (file as File & { path?: string }).path || file.name
+}
+
+export function QuiltUpload() {
+  const account = useCurrentAccount()
+  const getEncryptionKey = useEncryptionKey()
+  const createSealPolicy = useCreateSealPolicy()
+  const [files, setFiles] = useState<File[]>([])
+  const [retentionDays, setRetentionDays] = useState(30)
+  const [consentSigned, setConsentSigned] = useState(false)
+  const [deletable, setDeletable] = useState(true)
+  const [asFolder, setAsFolder] = useState(false)
+  const [epochInfo, setEpochInfo] = useState<EpochInfo | null>(null)
+  const [processing, setProcessing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<QuiltResult | null>(null)
+
+  useEffect(() => {
+    getEpochInfo(createSuiClient())
+      .then(setEpochInfo)
+      .catch((err) => console.warn("Failed to load Walrus epoch info:", err))
+  }, [])
+
+  const maxDays = epochInfo ? Math.max(1, maxRetentionDays(epochInfo)) : 365
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    setResult(null)
+    setFiles((prev) => [...prev, ...acceptedFiles].slice(0, QUILT_MAX_ENTRIES))
+  }, [])
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    maxSize: MAX_PACKED_FILE_SIZE,
+    onDropRejected: (rejections) =>
+      toast({
+        title: "Files Skipped",
+        description: `${rejections.length} file(s) exceed ${formatBytes(MAX_PACKED_FILE_SIZE, 0)}; upload them individually`,
+        variant: "destructive",
+      }),
+  })
+
+  const handlePack = async () => {
+    if (files.length === 0) return
+
+    setProcessing(true)
+    setProgress(0)
+
+    try {
+      const info = epochInfo ?? (await getEpochInfo(createSuiClient()))
+      const policy = createPolicy({
+        type: "time-lock",
+        retentionDays,
+        consentRequired: consentSigned,
+        consentSignature: consentSigned ? "user-consent-signature" : undefined,
+      })
+
+      // Same key protection as single uploads: Seal when configured, else the owner's key
+      let recipients: string[] = []
+      if (isSealConfigured()) {
+        policy.objectId = await createSealPolicy(policy)
+      } else {
+        recipients = [(await getEncryptionKey()).publicKey]
+      }
+
+      // Commit to and encrypt each file separately so proofs stay per-file
+      const quiltFiles: QuiltFile[] = []
+      const roots: { fileRoot: string; committedAt: number; metadata: string; metadataDigest: string }[] = []
+      for (const [i, file] of files.entries()) {
+        const fileData = new Uint8Array(await file.arrayBuffer())
+        const { commitment, combinedCommitment, timestamp, metadata, metadataDigest } =
+          await createCommitmentWithMetadata(fileData, {
+            policyId: policy.id,
+            timestamp: Date.now(),
+            fileName: file.name,
+            mimeType: file.type || undefined,
+            owner: account?.address,
+          })
+        const envelope = await encryptWithSeal(fileData, policy, recipients)
+        quiltFiles.push({ envelope: serializeEnvelope(envelope), commitment: combinedCommitment })
+        roots.push({ fileRoot: commitment, committedAt: timestamp, metadata, metadataDigest })
+        setProgress(((i + 1) / files.length) * 40)
+      }
+
+      // One commitment over the (path, fileRoot, size) entries, for a single receipt
+      let folder: {
+        commitment: string
+        committedAt: number
+        metadata: string
+        metadataDigest: string
+        tree: FolderCommitment
+      } | null = null
+      if (asFolder) {
+        const tree = await createFolderCommitment(
+          files.map((file, i) => ({ path: relativePath(file), fileRoot: roots[i].fileRoot, size: file.size }))
+        )
+        const { combinedCommitment, timestamp, metadata, metadataDigest } = await commitToPolicy(tree.root, {
+          policyId: policy.id,
+          timestamp: Date.now(),
+          owner: account?.address,
+        })
+        folder = { commitment: combinedCommitment, committedAt: timestamp, metadata, metadataDigest, tree }
+      }
+
+      const uploadResult = await uploadQuilt(quiltFiles, daysToEpochs(retentionDays, info), {
+        deletable,
+        sendObjectTo: account?.address,
+        onProgress: (p) => {
+          if (p.total > 0) setProgress(40 + (60 * Math.min(p.loaded, p.total)) / p.total)
+        },
+      })
+      const expiresAt = epochsToDate(uploadResult.endEpoch, info).getTime()
+
+      const packed: PackedFile[] = uploadResult.entries.map((entry) => ({
+        fileName: files[entry.index].name,
+        fileSize: files[entry.index].size,
+        quiltIndex: entry.index,
+        commitment: entry.commitment,
+        ...roots[entry.index],
+      }))
+
+      // Store policy and quilt location per file for later decryption
+      for (const file of packed) {
+        try {
+          localStorage.setItem(
+            `zkStorage_${file.commitment}`,
+            JSON.stringify({
+              blobId: uploadResult.blobId,
+              blobDigest: uploadResult.digest,
+              blobObjectId: uploadResult.suiObjectId,
+              quiltIndex: file.quiltIndex,
+              endEpoch: uploadResult.endEpoch,
+              expiresAt,
+              policyId: policy.id,
+              policy,
+              fileRoot: file.fileRoot,
+              committedAt: file.committedAt,
+              metadata: file.metadata,
+              metadataDigest: file.metadataDigest,
+              fileName: file.fileName,
+              fileSize: file.fileSize,
+            })
+          )
+        } catch (e) {
+          console.warn("Failed to store policy in localStorage:", e)
+        }
+      }
+
+      // The folder record keeps its entries, so file proofs can be made later
+      if (folder) {
+        try {
+          localStorage.setItem(
+            `zkStorage_${folder.commitment}`,
+            JSON.stringify({
+              blobId: uploadResult.blobId,
+              blobDigest: uploadResult.digest,
+              blobObjectId: uploadResult.suiObjectId,
+              endEpoch: uploadResult.endEpoch,
+              expiresAt,
+              policyId: policy.id,
+              policy,
+              fileRoot: folder.tree.root,
+              committedAt: folder.committedAt,
+              metadata: folder.metadata,
+              metadataDigest: folder.metadataDigest,
+              folder: folder.tree.entries,
+              fileName: `${packed.length} files`,
+              fileSize: packed.reduce((sum, file) => sum + file.fileSize, 0),
+            })
+          )
+        } catch (e) {
+          console.warn("Failed to store folder commitment in localStorage:", e)
+        }
+      }
+
+      setProgress(100)
+      setResult({
+        blobId: uploadResult.blobId,
+        policyId: policy.id,
+        endEpoch: uploadResult.endEpoch,
+        files: packed,
+        folderCommitment: folder?.commitment,
+      })
+      setFiles([])
+
+      toast({
+        title: "Batch Uploaded",
+        description: `${packed.length} files packed into one Walrus blob`,
+        variant: "success",
+      })
+    } catch (err) {
+      console.error("Batch upload error:", err)
+      toast({
+        title: "Batch Upload Failed",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <Card className="border-zinc-800/60 bg-zinc-900/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Layers className="w-4 h-4 text-cyan-400" />
+          Batch small files
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Pack up to {QUILT_MAX_ENTRIES} files under {formatBytes(MAX_PACKED_FILE_SIZE, 0)} into one
+          Walrus blob. Each file keeps its own commitment and receipt, and a folder receipt can
+          cover them all.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          {...getRootProps()}
+          className={`p-6 text-center cursor-pointer rounded-lg border border-dashed transition-all ${
+            isDragActive ? "bg-cyan-500/5 border-cyan-500/30" : "border-zinc-700/50 hover:bg-white/[0.02]"
+          }`}
+        >
+          <input {...getInputProps()} />
+          <p className="text-xs text-zinc-400">
+            {isDragActive ? "Drop here" : "Drop files or click to add"}
+          </p>
+        </div>
+
+        {files.length > 0 && (
+          <>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {files.map((file, i) => (
+                <li key={`${file.name}-${i}`} className="flex items-center gap-2 text-xs text-zinc-300">
+                  <span className="flex-1 truncate">{relativePath(file)}</span>
+                  <span className="text-zinc-500">{formatBytes(file.size)}</span>
+                  <button
+                    onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))}
+                    className="text-zinc-500 hover:text-zinc-300"
+                    disabled={processing}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-end gap-4">
+              <div className="space-y-1 flex-1">
+                <Label className="text-xs text-zinc-400">Retention (days)</Label>
+                <Input
+                  type="number"
+                  value={retentionDays}
+                  onChange={(e) =>
+                    setRetentionDays(Math.min(maxDays, Math.max(1, parseInt(e.target.value) || 1)))
+                  }
+                  min={1}
+                  max={maxDays}
+                  className="bg-zinc-800/30 border-zinc-700/50"
+                />
+              </div>
+              <label className="flex items-center gap-2 pb-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={consentSigned}
+                  onChange={(e) => setConsentSigned(e.target.checked)}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-cyan-500"
+                />
+                Sign consent
+              </label>
+              <label className="flex items-center gap-2 pb-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={deletable}
+                  onChange={(e) => setDeletable(e.target.checked)}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-cyan-500"
+                />
+                Deletable
+              </label>
+              <label className="flex items-center gap-2 pb-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={asFolder}
+                  onChange={(e) => setAsFolder(e.target.checked)}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-cyan-500"
+                />
+                One folder receipt
+              </label>
+            </div>
+
+            {processing && <ProgressBar progress={progress} showLabel />}
+
+            <Button onClick={handlePack} className="w-full" disabled={processing || !account}>
+              <Lock className="w-4 h-4 mr-2" />
+              Encrypt & Pack {files.length} file{files.length === 1 ? "" : "s"}
+            </Button>
+          </>
+        )}
+
+        {result && (
+          <div className="space-y-2 pt-2 border-t border-zinc-800/50">
+            <p className="text-xs text-zinc-500">
+              Blob <code className="text-cyan-400">{shortenHash(result.blobId, 8)}</code> · epoch{" "}
+              {result.endEpoch}
+            </p>
+            {result.folderCommitment && (
+              <div className="flex items-center gap-2 text-xs">
+                <span className="flex-1 text-zinc-300">Folder ({result.files.length} files)</span>
+                <code className="text-zinc-500">{shortenHash(result.folderCommitment, 6)}</code>
+                <Link
+                  href={`/receipt?commitment=${result.folderCommitment}&blobId=${result.blobId}&policyId=${result.policyId}&endEpoch=${result.endEpoch}`}
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  <ArrowRight className="w-3 h-3" />
+                </Link>
+              </div>
+            )}
+            {result.files.map((file) => (
+              <div key={file.quiltIndex} className="flex items-center gap-2 text-xs">
+                <span className="w-6 text-zinc-600">#{file.quiltIndex}</span>
+                <span className="flex-1 truncate text-zinc-300">{file.fileName}</span>
+                <code className="text-zinc-500">{shortenHash(file.commitment, 6)}</code>
+                <Link
+                  href={`/receipt?commitment=${file.commitment}&blobId=${result.blobId}&policyId=${result.policyId}&endEpoch=${result.endEpoch}`}
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  <ArrowRight className="w-3 h-3" />
+                </Link>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
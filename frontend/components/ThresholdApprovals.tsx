@@ -0,0 +1,190 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle, Copy, KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader } from "@/components/ui/loader"
+import { deserializeEnvelope, type EncryptedEnvelope } from "@/lib/seal"
+import { approveShare, parseApprovals, reconstructDataKey, serializeApproval, verifyApprovals } from "@/lib/threshold"
+import { useEncryptionKey } from "@/lib/use-encryption-key"
+import { toast } from "@/lib/use-toast"
+import { retrieveFromWalrus } from "@/lib/walrus"
+import { retrieveFromQuilt } from "@/lib/walrus-quilt"
+
+export interface VerifiedApprovals {
+  required: number
+  total: number
+  // Share indices of the approvals that verified against the envelope
+  indices: number[]
+}
+
+interface ThresholdApprovalsProps {
+  commitment: string
+  blobId: string
+  // Called with the verified quorum, or null when it's cleared
+  onVerified: (approvals: VerifiedApprovals | null) => void
+}
+
+/**
+ * Approve a request as one of a threshold policy's key holders, or collect
+ * approvals as the requester and check that they reconstruct the file key
+ */
+export function ThresholdApprovals({ commitment, blobId, onVerified }: ThresholdApprovalsProps) {
+  const getEncryptionKey = useEncryptionKey()
+  const [requesterKey, setRequesterKey] = useState("")
+  const [approvalsText, setApprovalsText] = useState("")
+  const [approving, setApproving] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+  const [verified, setVerified] = useState<VerifiedApprovals | null>(null)
+  const [cached, setCached] = useState<{ blobId: string; envelope: EncryptedEnvelope } | null>(null)
+
+  const loadEnvelope = async (): Promise<EncryptedEnvelope> => {
+    if (!blobId) {
+      throw new Error("Enter the blob ID of the encrypted file")
+    }
+    if (cached?.blobId === blobId) {
+      return cached.envelope
+    }
+
+    // The uploader's browser knows the digest and quilt entry; elsewhere the blob is read whole
+    let stored: { blobDigest?: string; quiltIndex?: number } = {}
+    try {
+      stored = JSON.parse(localStorage.getItem(`zkStorage_${commitment}`) ?? "{}")
+    } catch (e) {
+      console.warn("Failed to retrieve upload record from localStorage:", e)
+    }
+    const data =
+      stored.quiltIndex === undefined
+        ? await retrieveFromWalrus(blobId, stored.blobDigest)
+        : await retrieveFromQuilt(blobId, stored.quiltIndex, stored.blobDigest)
+
+    const envelope = deserializeEnvelope(data)
+    if (!envelope.threshold) {
+      throw new Error("This file has no key holders")
+    }
+    setCached({ blobId, envelope })
+    return envelope
+  }
+
+  const showError = (title: string, err: unknown) => {
+    console.error(`${title}:`, err)
+    toast({
+      title,
+      description: err instanceof Error ? err.message : String(err),
+      variant: "destructive",
+    })
+  }
+
+  const copyEncryptionKey = async () => {
+    try {
+      navigator.clipboard.writeText((await getEncryptionKey()).publicKey)
+      toast({ title: "Copied", description: "Encryption key copied to clipboard" })
+    } catch (err) {
+      showError("Encryption Key Unavailable", err)
+    }
+  }
+
+  const handleApprove = async () => {
+    setApproving(true)
+    try {
+      const envelope = await loadEnvelope()
+      const approval = await approveShare(envelope, await getEncryptionKey(), requesterKey)
+      navigator.clipboard.writeText(serializeApproval(approval))
+      toast({
+        title: "Approval Copied",
+        description: `Send it to the requester; share ${approval.index} of ${envelope.threshold!.shares.length} is wrapped to their key`,
+        variant: "success",
+      })
+    } catch (err) {
+      showError("Approval Failed", err)
+    } finally {
+      setApproving(false)
+    }
+  }
+
+  const handleVerify = async () => {
+    setVerifying(true)
+    setVerified(null)
+    onVerified(null)
+    try {
+      const envelope = await loadEnvelope()
+      const keyPair = await getEncryptionKey()
+      const approvals = parseApprovals(approvalsText)
+
+      // Only counts once the shares actually reconstruct the key
+      await reconstructDataKey(envelope, approvals, keyPair)
+      const shares = await verifyApprovals(envelope, approvals, keyPair)
+
+      const result = {
+        required: envelope.threshold!.required,
+        total: envelope.threshold!.shares.length,
+        indices: shares.map((share) => share.index).sort((a, b) => a - b),
+      }
+      setVerified(result)
+      onVerified(result)
+      toast({
+        title: "Quorum Reached",
+        description: `${result.indices.length} of ${result.total} key holders approved`,
+        variant: "success",
+      })
+    } catch (err) {
+      showError("Approvals Rejected", err)
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="space-y-2">
+        <Label className="text-xs text-zinc-400">Approve as a key holder</Label>
+        <div className="flex gap-2">
+          <Input
+            value={requesterKey}
+            onChange={(e) => setRequesterKey(e.target.value)}
+            placeholder="Requester's encryption public key"
+            className="font-mono text-xs"
+          />
+          <Button onClick={handleApprove} disabled={!requesterKey || approving} variant="outline">
+            {approving ? <Loader size="sm" /> : "Approve"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-zinc-400">Key holder approvals, one per line</Label>
+          <button onClick={copyEncryptionKey} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200">
+            <Copy className="w-3 h-3" />
+            Copy your encryption key
+          </button>
+        </div>
+        <textarea
+          className="w-full h-24 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-white font-mono placeholder:text-zinc-500 focus:border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 resize-none"
+          placeholder='{"policyId": "...", "index": 1, ...}'
+          value={approvalsText}
+          onChange={(e) => setApprovalsText(e.target.value)}
+        />
+        <Button onClick={handleVerify} disabled={!approvalsText.trim() || verifying} className="w-full" variant="outline">
+          {verifying ? (
+            <Loader size="sm" />
+          ) : (
+            <>
+              <KeyRound className="w-4 h-4 mr-2" />
+              Verify Approvals
+            </>
+          )}
+        </Button>
+        {verified && (
+          <p className="flex items-center gap-2 text-xs text-green-400">
+            <CheckCircle className="w-3 h-3" />
+            {verified.indices.length} of {verified.required} required approvals verified (shares{" "}
+            {verified.indices.join(", ")})
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+/**
+ * Commitment Chunking
+ * Splits data into Merkle leaves, either at fixed offsets or at
+ * content-defined boundaries (FastCDC with normalized chunking). With
+ * content-defined chunking an insertion only changes the leaves around it,
+ * so versions of a document share most of their leaves.
+ *
+ * The parameters are recorded with each commitment: the same data chunked
+ * differently gives a different root.
+ */
+
+export const FIXED_CHUNK_SIZE = 16 * 1024
+
+export type ChunkingParams =
+  | { mode: "fixed"; size: number }
+  | { mode: "cdc"; minSize: number; avgSize: number; maxSize: number }
+
+export const FIXED_CHUNKING: ChunkingParams = { mode: "fixed", size: FIXED_CHUNK_SIZE }
+
+// Averages the fixed leaf size, so proofs and trees stay about as large
+export const DEFAULT_CDC_CHUNKING: ChunkingParams = {
+  mode: "cdc",
+  minSize: 4 * 1024,
+  avgSize: 16 * 1024,
+  maxSize: 64 * 1024,
+}
+
+/**
+ * Gear table for the rolling hash. Generated with splitmix32 from a fixed
+ * seed; changing it moves every content-defined boundary, so it is part of
+ * the "cdc" format.
+ */
+const GEAR = (() => {
+  const table = new Uint32Array(256)
+  let state = 0x7a6b5354
+  for (let i = 0; i < 256; i++) {
+    state = (state + 0x9e3779b9) | 0
+    let z = state
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+    table[i] = (z ^ (z >>> 16)) >>> 0
+  }
+  return table
+})()
+
+/**
+ * Mask of the top `bits` bits. The gear hash shifts left each byte, so its
+ * high bits cover the most recent 32 bytes.
+ */
+function highMask(bits: number): number {
+  return bits <= 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0
+}
+
+/**
+ * Throw if the parameters can't be used for a commitment
+ */
+export function validateChunking(params: ChunkingParams): void {
+  if (params.mode === "fixed") {
+    if (!Number.isInteger(params.size) || params.size <= 0) {
+      throw new Error(`Invalid fixed chunk size: ${params.size}`)
+    }
+    return
+  }
+
+  const { minSize, avgSize, maxSize } = params
+  if (!Number.isInteger(Math.log2(avgSize)) || avgSize < 256) {
+    throw new Error(`CDC average size must be a power of two of at least 256 bytes, got ${avgSize}`)
+  }
+  if (!Number.isInteger(minSize) || !Number.isInteger(maxSize) || minSize <= 0 || minSize > avgSize || maxSize < avgSize) {
+    throw new Error(`Invalid CDC bounds: min ${minSize}, avg ${avgSize}, max ${maxSize}`)
+  }
+}
+
+/**
+ * Length of the next chunk of `data` from `offset`. Only looks at up to
+ * maxSize bytes, so a streaming chunker gets the same cuts once it has
+ * buffered that much.
+ */
+function cdcCut(
+  data: Uint8Array,
+  offset: number,
+  end: number,
+  params: Extract<ChunkingParams, { mode: "cdc" }>
+): number {
+  let length = end - offset
+  if (length <= params.minSize) {
+    return length
+  }
+  length = Math.min(length, params.maxSize)
+
+  // Normalized chunking: a stricter mask before the average size and a
+  // looser one after it keeps chunk sizes close to the average
+  const bits = Math.log2(params.avgSize)
+  const strictMask = highMask(bits + 2)
+  const looseMask = highMask(bits - 2)
+  const normal = Math.min(params.avgSize, length)
+
+  let hash = 0
+  let i = params.minSize
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + GEAR[data[offset + i]]) >>> 0
+    if ((hash & strictMask) === 0) return i + 1
+  }
+  for (; i < length; i++) {
+    hash = ((hash << 1) + GEAR[data[offset + i]]) >>> 0
+    if ((hash & looseMask) === 0) return i + 1
+  }
+  return length
+}
+
+/**
+ * Split data into chunks. Empty data gives no chunks.
+ */
+export function splitChunks(data: Uint8Array, params: ChunkingParams = FIXED_CHUNKING): Uint8Array[] {
+  validateChunking(params)
+  const chunks: Uint8Array[] = []
+
+  let offset = 0
+  while (offset < data.length) {
+    const length =
+      params.mode === "fixed"
+        ? Math.min(params.size, data.length - offset)
+        : cdcCut(data, offset, data.length, params)
+    chunks.push(data.slice(offset, offset + length))
+    offset += length
+  }
+
+  return chunks
+}
+
+export interface Chunker {
+  // Add data, returning chunks that are now complete
+  push(data: Uint8Array): Uint8Array[]
+  // End of input, returning the remaining chunks
+  finish(): Uint8Array[]
+}
+
+/**
+ * Incremental splitChunks for streamed input: gives the same chunks while
+ * buffering at most one maximum-size chunk plus the latest input
+ */
+export function createChunker(params: ChunkingParams = FIXED_CHUNKING): Chunker {
+  validateChunking(params)
+  const lookahead = params.mode === "fixed" ? params.size : params.maxSize
+  let buffer = new Uint8Array(lookahead * 2)
+  let filled = 0
+
+  const cut = (final: boolean): Uint8Array[] => {
+    const chunks: Uint8Array[] = []
+    let offset = 0
+    while (filled - offset >= lookahead || (final && offset < filled)) {
+      const length =
+        params.mode === "fixed"
+          ? Math.min(params.size, filled - offset)
+          : cdcCut(buffer, offset, filled, params)
+      chunks.push(buffer.slice(offset, offset + length))
+      offset += length
+    }
+    buffer.copyWithin(0, offset, filled)
+    filled -= offset
+    return chunks
+  }
+
+  return {
+    push(data) {
+      if (filled + data.length > buffer.length) {
+        const grown = new Uint8Array(Math.max(buffer.length * 2, filled + data.length))
+        grown.set(buffer.subarray(0, filled))
+        buffer = grown
+      }
+      buffer.set(data, filled)
+      filled += data.length
+      return cut(false)
+    },
+    finish() {
+      return cut(true)
+    },
+  }
+}
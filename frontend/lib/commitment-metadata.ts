@@ -0,0 +1,196 @@
+/**
+ * Commitment Metadata Encoding
+ * Canonical BCS encoding of the record an upload commitment is made from,
+ * so other implementations (backend, CLI) can reproduce combinedCommitment
+ * byte for byte. The commitment is Poseidon(file_root, policy_id, timestamp,
+ * digest high, digest low), where the digest is the SHA-256 of the encoded
+ * record split into two 128-bit halves, so every field, optional ones
+ * included, is bound to the commitment and the storage proof. Test vectors
+ * are published in circuits/test-vectors/commitment-metadata.json.
+ */
+
+import { bcs } from "@mysten/sui/bcs"
+import { fromHex, isValidSuiAddress, normalizeSuiAddress, toHex } from "@mysten/sui/utils"
+import { FIXED_CHUNKING, validateChunking, type ChunkingParams } from "./chunking"
+import { fieldToHex, hexToField } from "./poseidon"
+
+export const COMMITMENT_METADATA_VERSION = 1
+
+const Bytes32 = bcs.fixedArray(32, bcs.u8())
+
+const ChunkingBcs = bcs.enum("Chunking", {
+  Fixed: bcs.struct("FixedChunking", { size: bcs.u32() }),
+  Cdc: bcs.struct("CdcChunking", { min_size: bcs.u32(), avg_size: bcs.u32(), max_size: bcs.u32() }),
+})
+
+/**
+ * The schema. Field elements are 32 bytes big-endian; the timestamp is
+ * whole seconds.
+ */
+export const CommitmentMetadataBcs = bcs.struct("CommitmentMetadata", {
+  version: bcs.u8(),
+  file_root: Bytes32,
+  policy_id: Bytes32,
+  timestamp: bcs.u64(),
+  chunking: ChunkingBcs,
+  // SHA-256 of the UTF-8 file name, so the name itself isn't disclosed
+  file_name_hash: bcs.option(Bytes32),
+  // Lowercase "type/subtype", without parameters
+  mime_type: bcs.option(bcs.string()),
+  // Sui address of the uploader
+  owner: bcs.option(bcs.Address),
+})
+
+export interface CanonicalCommitmentMetadata {
+  version: number
+  // Merkle root of the file (or folder), 64-char hex
+  fileRoot: string
+  // Policy ID as a 64-char hex field element
+  policyId: string
+  // Commitment timestamp in seconds
+  timestamp: number
+  chunking: ChunkingParams
+  fileNameHash: string | null
+  mimeType: string | null
+  owner: string | null
+}
+
+/**
+ * Optional fields, as supplied alongside CommitmentMetadata
+ */
+export interface CommitmentMetadataExtras {
+  // Hashed before encoding
+  fileName?: string
+  mimeType?: string
+  owner?: string
+}
+
+function bytes32(hex: string, what: string): number[] {
+  const clean = hex.replace(/^0x/, "")
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error(`Invalid ${what}: expected 32 bytes of hex`)
+  }
+  return Array.from(fromHex(clean))
+}
+
+function normalizeMimeType(mimeType: string): string {
+  const normalized = mimeType.split(";")[0].trim().toLowerCase()
+  if (!/^[a-z0-9!#$&^_.+-]+\/[a-z0-9!#$&^_.+-]+$/.test(normalized)) {
+    throw new Error(`Invalid MIME type: ${mimeType}`)
+  }
+  return normalized
+}
+
+/**
+ * Build the canonical record, validating and normalizing every field
+ */
+export async function toCanonicalMetadata(params: {
+  fileRoot: string
+  policyId: string
+  timestamp: number
+  chunking?: ChunkingParams
+  extras?: CommitmentMetadataExtras
+}): Promise<CanonicalCommitmentMetadata> {
+  const { extras = {} } = params
+  if (!Number.isSafeInteger(params.timestamp) || params.timestamp < 0) {
+    throw new Error(`Invalid commitment timestamp: ${params.timestamp}`)
+  }
+
+  const chunking = params.chunking ?? FIXED_CHUNKING
+  validateChunking(chunking)
+
+  let owner: string | null = null
+  if (extras.owner) {
+    owner = normalizeSuiAddress(extras.owner)
+    if (!isValidSuiAddress(owner)) {
+      throw new Error(`Invalid owner address: ${extras.owner}`)
+    }
+  }
+
+  let fileNameHash: string | null = null
+  if (extras.fileName !== undefined) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(extras.fileName))
+    fileNameHash = toHex(new Uint8Array(digest))
+  }
+
+  return {
+    version: COMMITMENT_METADATA_VERSION,
+    fileRoot: fieldToHex(hexToField(params.fileRoot)),
+    policyId: fieldToHex(hexToField(params.policyId)),
+    timestamp: params.timestamp,
+    chunking,
+    fileNameHash,
+    mimeType: extras.mimeType ? normalizeMimeType(extras.mimeType) : null,
+    owner,
+  }
+}
+
+export function encodeCommitmentMetadata(metadata: CanonicalCommitmentMetadata): Uint8Array {
+  const { chunking } = metadata
+  return CommitmentMetadataBcs.serialize({
+    version: metadata.version,
+    file_root: bytes32(metadata.fileRoot, "file root"),
+    policy_id: bytes32(metadata.policyId, "policy ID"),
+    timestamp: BigInt(metadata.timestamp),
+    chunking:
+      chunking.mode === "fixed"
+        ? { Fixed: { size: chunking.size } }
+        : { Cdc: { min_size: chunking.minSize, avg_size: chunking.avgSize, max_size: chunking.maxSize } },
+    file_name_hash: metadata.fileNameHash ? bytes32(metadata.fileNameHash, "file name hash") : null,
+    mime_type: metadata.mimeType,
+    owner: metadata.owner,
+  }).toBytes()
+}
+
+/**
+ * Decode a record, rejecting unknown versions and non-canonical bytes
+ */
+export function decodeCommitmentMetadata(data: Uint8Array): CanonicalCommitmentMetadata {
+  const parsed = CommitmentMetadataBcs.parse(data)
+  if (parsed.version !== COMMITMENT_METADATA_VERSION) {
+    throw new Error(`Unsupported commitment metadata version: ${parsed.version}`)
+  }
+
+  const chunking: ChunkingParams = parsed.chunking.Fixed
+    ? { mode: "fixed", size: parsed.chunking.Fixed.size }
+    : {
+        mode: "cdc",
+        minSize: parsed.chunking.Cdc!.min_size,
+        avgSize: parsed.chunking.Cdc!.avg_size,
+        maxSize: parsed.chunking.Cdc!.max_size,
+      }
+
+  const metadata: CanonicalCommitmentMetadata = {
+    version: parsed.version,
+    fileRoot: toHex(Uint8Array.from(parsed.file_root)),
+    policyId: toHex(Uint8Array.from(parsed.policy_id)),
+    timestamp: Number(parsed.timestamp),
+    chunking,
+    fileNameHash: parsed.file_name_hash ? toHex(Uint8Array.from(parsed.file_name_hash)) : null,
+    mimeType: parsed.mime_type ?? null,
+    owner: parsed.owner ?? null,
+  }
+
+  hexToField(metadata.fileRoot)
+  hexToField(metadata.policyId)
+  validateChunking(chunking)
+  if (metadata.mimeType !== null && normalizeMimeType(metadata.mimeType) !== metadata.mimeType) {
+    throw new Error(`Commitment metadata MIME type is not normalized: ${metadata.mimeType}`)
+  }
+
+  // Trailing bytes or unnormalized fields would give a second encoding
+  const reencoded = encodeCommitmentMetadata(metadata)
+  if (reencoded.length !== data.length || reencoded.some((byte, i) => byte !== data[i])) {
+    throw new Error("Commitment metadata is not canonically encoded")
+  }
+  return metadata
+}
+
+/**
+ * SHA-256 of the encoded record, hex
+ */
+export async function commitmentMetadataDigest(encoded: Uint8Array): Promise<string> {
+  const buffer = new ArrayBuffer(encoded.length)
+  new Uint8Array(buffer).set(encoded)
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", buffer)))
+}
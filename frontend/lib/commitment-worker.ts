@@ -0,0 +1,71 @@
+/**
+ * Commitment Worker Client
+ * Builds the upload commitment in a Web Worker so hashing large files
+ * doesn't block the UI. The worker streams the file, so memory stays
+ * bounded regardless of file size.
+ */
+
+import {
+  createStreamingCommitmentWithMetadata,
+  type CommitmentMetadata,
+  type UploadCommitment,
+} from "./merkle"
+import type { ProgressCallback, TransferProgress } from "./progress"
+
+export interface CommitmentWorkerRequest {
+  file: Blob
+  metadata: CommitmentMetadata
+  // Return the Merkle tree with the commitment
+  keepTree?: boolean
+}
+
+export type CommitmentWorkerMessage =
+  | { type: "progress"; progress: TransferProgress }
+  | { type: "result"; result: UploadCommitment }
+  | { type: "error"; message: string }
+
+/**
+ * Create the upload commitment for a file in a worker, falling back to the
+ * main thread where workers aren't available. With `keepTree` the result
+ * includes the Merkle tree, for persisting it.
+ */
+export async function createCommitmentInWorker(
+  file: Blob,
+  metadata: CommitmentMetadata,
+  onProgress?: ProgressCallback,
+  keepTree = false
+): Promise<UploadCommitment> {
+  if (typeof Worker === "undefined") {
+    console.warn("Web Workers unavailable, building commitment on the main thread")
+    return createStreamingCommitmentWithMetadata(file, metadata, onProgress, { keepTree })
+  }
+
+  const worker = new Worker(new URL("./commitment.worker.ts", import.meta.url), { type: "module" })
+
+  try {
+    return await new Promise<UploadCommitment>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<CommitmentWorkerMessage>) => {
+        const message = event.data
+        switch (message.type) {
+          case "progress":
+            onProgress?.(message.progress)
+            break
+          case "result":
+            resolve(message.result)
+            break
+          case "error":
+            reject(new Error(message.message))
+            break
+        }
+      }
+      worker.onerror = (event) => {
+        reject(new Error(`Commitment worker failed: ${event.message || "unknown error"}`))
+      }
+
+      const request: CommitmentWorkerRequest = { file, metadata, keepTree }
+      worker.postMessage(request)
+    })
+  } finally {
+    worker.terminate()
+  }
+}
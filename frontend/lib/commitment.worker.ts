@@ -0,0 +1,25 @@
+/**
+ * Commitment Worker
+ * Worker entry point for createCommitmentInWorker (commitment-worker.ts)
+ */
+
+import { createStreamingCommitmentWithMetadata } from "./merkle"
+import type { CommitmentWorkerMessage, CommitmentWorkerRequest } from "./commitment-worker"
+
+const post = (message: CommitmentWorkerMessage) => self.postMessage(message)
+
+self.onmessage = async (event: MessageEvent<CommitmentWorkerRequest>) => {
+  const { file, metadata, keepTree } = event.data
+
+  try {
+    const result = await createStreamingCommitmentWithMetadata(
+      file,
+      metadata,
+      (progress) => post({ type: "progress", progress }),
+      { keepTree }
+    )
+    post({ type: "result", result })
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) })
+  }
+}
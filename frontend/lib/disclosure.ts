@@ -0,0 +1,303 @@
+/**
+ * Partial Disclosure
+ * Exports chunks of an uploaded file with Merkle inclusion proofs against
+ * the receipt commitment, so a verifier can authenticate an excerpt without
+ * seeing the rest of the file. Disclosure is chunk-granular: every chunk
+ * touching the selected range is revealed in full. Only commitments with
+ * fixed-size chunks can be disclosed, since content-defined chunk offsets
+ * aren't implied by the leaf index.
+ */
+
+import {
+  COMMITMENT_CHUNK_SIZE,
+  bytesToHex,
+  computeUploadCommitment,
+  createCommitment,
+  generateProof,
+  hashChunk,
+  hexToBytes,
+  verifyProof,
+  type MerkleProof,
+  type MerkleTree,
+} from "./merkle"
+import type { ChunkingParams } from "./chunking"
+
+export const DISCLOSURE_FORMAT = "zkstorage-disclosure"
+// Version 2 commitments bind the metadata digest
+const DISCLOSURE_VERSION = 2
+
+export interface DisclosedChunk {
+  index: number
+  // Chunk bytes, hex
+  data: string
+  proof: MerkleProof
+}
+
+export interface Disclosure {
+  format: typeof DISCLOSURE_FORMAT
+  version: number
+  // Receipt commitment, Poseidon(fileRoot, policyId, committedAt, metadataDigest)
+  commitment: string
+  fileRoot: string
+  policyId: string
+  // Commitment timestamp in seconds
+  committedAt: number
+  // SHA-256 of the canonical commitment metadata, hex
+  metadataDigest: string
+  fileSize: number
+  chunkSize: number
+  // Requested byte range, end exclusive
+  range: { start: number; end: number }
+  chunks: DisclosedChunk[]
+  fileName?: string
+  createdAt: number
+}
+
+export interface DisclosureVerification {
+  valid: boolean
+  // fileRoot, policyId, committedAt and metadataDigest reproduce the commitment
+  commitmentMatches: boolean
+  // Chunks whose bytes or inclusion proof didn't check out
+  invalidChunks: number[]
+  // The requested range, when every chunk verified
+  excerpt: Uint8Array | null
+  error?: string
+}
+
+/**
+ * Number of leaves in the commitment tree of a file of this size
+ */
+function leafCountFor(fileSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / COMMITMENT_CHUNK_SIZE))
+}
+
+function normalizeHex(hex: string): string {
+  return hex.toLowerCase().replace(/^0x/, "")
+}
+
+/**
+ * Build a disclosure for bytes [start, end) of a file. The file must
+ * reproduce the receipt commitment with the given policy, timestamp and
+ * metadata digest.
+ * With the file's stored Merkle tree (see merkle-store.ts) only the
+ * disclosed chunks are read and hashed; otherwise the whole file is.
+ */
+export async function createDisclosure(
+  file: Blob,
+  range: { start: number; end: number },
+  receipt: {
+    commitment: string
+    policyId: string
+    committedAt: number
+    metadataDigest: string
+    chunking?: ChunkingParams
+    fileName?: string
+  },
+  storedTree?: MerkleTree | null
+): Promise<Disclosure> {
+  const chunking = storedTree?.chunking ?? receipt.chunking
+  if (chunking && (chunking.mode !== "fixed" || chunking.size !== COMMITMENT_CHUNK_SIZE)) {
+    throw new Error("Partial disclosure needs a commitment made with fixed-size chunks")
+  }
+
+  const { start, end } = range
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > file.size) {
+    throw new Error(`Invalid byte range ${start}-${end} for a ${file.size}-byte file`)
+  }
+
+  const readChunk = async (index: number) => {
+    const offset = index * COMMITMENT_CHUNK_SIZE
+    return new Uint8Array(await file.slice(offset, offset + COMMITMENT_CHUNK_SIZE).arrayBuffer())
+  }
+
+  const commitTo = (root: string) =>
+    computeUploadCommitment(root, receipt.policyId, receipt.committedAt, receipt.metadataDigest)
+
+  let tree: MerkleTree
+  let commitment: string
+  if (storedTree) {
+    if (storedTree.version < 2 || storedTree.leaves.length !== leafCountFor(file.size)) {
+      throw new Error("The stored Merkle tree doesn't fit this file")
+    }
+    tree = storedTree
+    commitment = await commitTo(tree.root)
+  } else {
+    // Uploads before v3 committed to v2 trees; the root binds the version
+    const data = new Uint8Array(await file.arrayBuffer())
+    tree = (await createCommitment(data)).tree
+    commitment = await commitTo(tree.root)
+    if (commitment !== normalizeHex(receipt.commitment)) {
+      tree = (await createCommitment(data, undefined, 2)).tree
+      commitment = await commitTo(tree.root)
+    }
+  }
+
+  const fileRoot = tree.root
+  if (commitment !== normalizeHex(receipt.commitment)) {
+    throw new Error(
+      storedTree
+        ? "The stored Merkle tree doesn't match the receipt commitment"
+        : "This file doesn't match the receipt commitment"
+    )
+  }
+
+  const chunks: DisclosedChunk[] = []
+  const first = Math.floor(start / COMMITMENT_CHUNK_SIZE)
+  const last = Math.floor((end - 1) / COMMITMENT_CHUNK_SIZE)
+  for (let index = first; index <= last; index++) {
+    const data = await readChunk(index)
+    const proof = generateProof(tree, index)
+
+    // Only the stored tree's root is checked above, so check what it proves
+    if (storedTree) {
+      if ((await hashChunk(data, tree.version)) !== proof.leaf) {
+        throw new Error("This file doesn't match the receipt commitment")
+      }
+      if (!(await verifyProof(fileRoot, proof))) {
+        throw new Error("The stored Merkle tree is corrupt")
+      }
+    }
+
+    chunks.push({ index, data: bytesToHex(data), proof })
+  }
+
+  return {
+    format: DISCLOSURE_FORMAT,
+    version: DISCLOSURE_VERSION,
+    commitment,
+    fileRoot,
+    policyId: receipt.policyId,
+    committedAt: receipt.committedAt,
+    metadataDigest: receipt.metadataDigest,
+    fileSize: file.size,
+    chunkSize: COMMITMENT_CHUNK_SIZE,
+    range: { start, end },
+    chunks,
+    fileName: receipt.fileName,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Check every disclosed chunk against its inclusion proof and the proofs'
+ * root against the commitment. Pass `expectedCommitment` (e.g. from the
+ * on-chain receipt) to also pin which commitment the excerpt belongs to.
+ */
+export async function verifyDisclosure(
+  disclosure: Disclosure,
+  expectedCommitment?: string
+): Promise<DisclosureVerification> {
+  const failed = (error: string, commitmentMatches = false): DisclosureVerification => ({
+    valid: false,
+    commitmentMatches,
+    invalidChunks: [],
+    excerpt: null,
+    error,
+  })
+
+  if (expectedCommitment && normalizeHex(expectedCommitment) !== normalizeHex(disclosure.commitment)) {
+    return failed("The disclosure is for a different commitment")
+  }
+
+  let commitmentMatches: boolean
+  try {
+    commitmentMatches =
+      (await computeUploadCommitment(
+        disclosure.fileRoot,
+        disclosure.policyId,
+        disclosure.committedAt,
+        disclosure.metadataDigest
+      )) === normalizeHex(disclosure.commitment)
+  } catch {
+    commitmentMatches = false
+  }
+  if (!commitmentMatches) {
+    return failed("The file root doesn't reproduce the commitment")
+  }
+  if (disclosure.chunkSize !== COMMITMENT_CHUNK_SIZE) {
+    return failed(`Unsupported chunk size ${disclosure.chunkSize}`, true)
+  }
+
+  const { start, end } = disclosure.range
+  const leafCount = leafCountFor(disclosure.fileSize)
+  const first = Math.floor(start / COMMITMENT_CHUNK_SIZE)
+  const last = Math.floor((end - 1) / COMMITMENT_CHUNK_SIZE)
+  const chunks = [...disclosure.chunks].sort((a, b) => a.index - b.index)
+  if (
+    end <= start ||
+    end > disclosure.fileSize ||
+    chunks.length !== last - first + 1 ||
+    chunks.some((chunk, i) => chunk.index !== first + i)
+  ) {
+    return failed("The disclosed chunks don't cover the stated range", true)
+  }
+
+  const invalidChunks: number[] = []
+  const parts: Uint8Array[] = []
+  for (const chunk of chunks) {
+    const bytes = hexToBytes(chunk.data)
+    const expectedSize =
+      chunk.index < leafCount - 1
+        ? COMMITMENT_CHUNK_SIZE
+        : disclosure.fileSize - chunk.index * COMMITMENT_CHUNK_SIZE
+    const { proof } = chunk
+
+    // v2 and v3 proofs commit to the leaf count, so the file size can't be faked
+    const valid =
+      (proof.version === 2 || proof.version === 3) &&
+      proof.leafIndex === chunk.index &&
+      proof.leafCount === leafCount &&
+      bytes.length === expectedSize &&
+      (await hashChunk(bytes, proof.version)) === proof.leaf &&
+      (await verifyProof(disclosure.fileRoot, proof))
+
+    if (!valid) invalidChunks.push(chunk.index)
+    parts.push(bytes)
+  }
+
+  if (invalidChunks.length > 0) {
+    return {
+      valid: false,
+      commitmentMatches,
+      invalidChunks,
+      excerpt: null,
+      error: `${invalidChunks.length} chunk(s) failed verification`,
+    }
+  }
+
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    offset += part.length
+  }
+  const base = first * COMMITMENT_CHUNK_SIZE
+
+  return {
+    valid: true,
+    commitmentMatches,
+    invalidChunks,
+    excerpt: joined.slice(start - base, end - base),
+  }
+}
+
+export function serializeDisclosure(disclosure: Disclosure): string {
+  return JSON.stringify(disclosure, null, 2)
+}
+
+/**
+ * Parse a disclosure file, rejecting anything that isn't one
+ */
+export function parseDisclosure(json: string): Disclosure {
+  const parsed = JSON.parse(json)
+  if (parsed?.format !== DISCLOSURE_FORMAT) {
+    throw new Error("Not a zkStorage disclosure file")
+  }
+  if (parsed.version !== DISCLOSURE_VERSION) {
+    throw new Error(`Unsupported disclosure version: ${parsed.version}`)
+  }
+  if (!Array.isArray(parsed.chunks) || !parsed.range) {
+    throw new Error("Disclosure is missing its chunks or range")
+  }
+  return parsed as Disclosure
+}
@@ -0,0 +1,260 @@
+/**
+ * Folder Commitments
+ * Commits to a set of files with one root: each file keeps its own Merkle
+ * tree, and a top-level v2 tree covers one leaf per (path, fileRoot, size)
+ * entry, sorted by path. Entry leaves are hashed here, so the folder tree
+ * stays v2 while file trees move to newer leaf formats. The folder root takes the place of a file root in
+ * the upload commitment, so one receipt covers the whole folder.
+ *
+ * A file inclusion proof reveals a single entry; sibling hashes don't reveal
+ * the other files' names or contents, only how many files there are.
+ */
+
+import {
+  computeUploadCommitment,
+  createMerkleTreeFromLeaves,
+  createStreamingCommitment,
+  generateProof,
+  hashFile,
+  hexToBytes,
+  verifyProof,
+  type MerkleProof,
+  type MerkleTree,
+} from "./merkle"
+import { digestToFields, fieldToHex, hexToField, poseidonHash } from "./poseidon"
+import { createProgressReporter, type ProgressCallback } from "./progress"
+
+export const FOLDER_PROOF_FORMAT = "zkstorage-folder-proof"
+// Version 2 commitments bind the metadata digest
+const FOLDER_PROOF_VERSION = 2
+
+// Keeps entry leaves apart from file leaves (0) and internal nodes (1)
+const ENTRY_TAG = BigInt(2)
+
+export interface FolderEntry {
+  // Relative path with "/" separators
+  path: string
+  fileRoot: string
+  size: number
+}
+
+export interface FolderCommitment {
+  root: string
+  // Sorted by path, in leaf order
+  entries: FolderEntry[]
+  tree: MerkleTree
+}
+
+export interface FileInclusionProof {
+  format: typeof FOLDER_PROOF_FORMAT
+  version: number
+  // Receipt commitment, Poseidon(folderRoot, policyId, committedAt, metadataDigest)
+  commitment: string
+  folderRoot: string
+  policyId: string
+  // Commitment timestamp in seconds
+  committedAt: number
+  // SHA-256 of the canonical commitment metadata, hex
+  metadataDigest: string
+  entry: FolderEntry
+  proof: MerkleProof
+  createdAt: number
+}
+
+export interface FileProofVerification {
+  valid: boolean
+  // folderRoot, policyId, committedAt and metadataDigest reproduce the commitment
+  commitmentMatches: boolean
+  // Whether the supplied file matches the entry, when one was given
+  fileMatches?: boolean
+  error?: string
+}
+
+/**
+ * Canonical form of a relative path, rejecting ones that could be read as
+ * a different file
+ */
+export function normalizePath(path: string): string {
+  const segments = path.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "").split("/")
+  if (segments.some((segment) => segment === "" || segment === "." || segment === "..")) {
+    throw new Error(`Invalid path in folder: ${path}`)
+  }
+  return segments.join("/")
+}
+
+/**
+ * Leaf of a folder entry: Poseidon(2, path digest high, path digest low,
+ * fileRoot, size)
+ */
+export async function hashEntry(entry: FolderEntry): Promise<string> {
+  const pathDigest = hexToBytes(await hashFile(new TextEncoder().encode(entry.path)))
+  return fieldToHex(
+    await poseidonHash([ENTRY_TAG, ...digestToFields(pathDigest), hexToField(entry.fileRoot), BigInt(entry.size)])
+  )
+}
+
+/**
+ * Build the folder tree over entries whose file roots are already known
+ */
+export async function createFolderCommitment(entries: FolderEntry[]): Promise<FolderCommitment> {
+  if (entries.length === 0) {
+    throw new Error("Cannot commit to an empty folder")
+  }
+
+  const sorted = entries
+    .map((entry) => ({ ...entry, path: normalizePath(entry.path) }))
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].path === sorted[i - 1].path) {
+      throw new Error(`Duplicate path in folder: ${sorted[i].path}`)
+    }
+  }
+
+  const tree = await createMerkleTreeFromLeaves(await Promise.all(sorted.map(hashEntry)), 2)
+  return { root: tree.root, entries: sorted, tree }
+}
+
+/**
+ * Commit to each file, then to the folder. `onProgress` reports bytes
+ * hashed across all files.
+ */
+export async function commitFolder(
+  files: { path: string; file: Blob }[],
+  onProgress?: ProgressCallback
+): Promise<FolderCommitment> {
+  const report = createProgressReporter(
+    files.reduce((sum, { file }) => sum + file.size, 0),
+    onProgress
+  )
+  const entries: FolderEntry[] = []
+  let done = 0
+
+  for (const { path, file } of files) {
+    const { commitment } = await createStreamingCommitment(file, (p) => report(done + p.loaded))
+    entries.push({ path, fileRoot: commitment, size: file.size })
+    done += file.size
+  }
+
+  return createFolderCommitment(entries)
+}
+
+/**
+ * Proof that one file is part of a committed folder
+ */
+export async function generateFileProof(
+  folder: FolderCommitment,
+  path: string,
+  receipt: { commitment: string; policyId: string; committedAt: number; metadataDigest: string }
+): Promise<FileInclusionProof> {
+  const normalized = normalizePath(path)
+  const index = folder.entries.findIndex((entry) => entry.path === normalized)
+  if (index < 0) {
+    throw new Error(`${path} is not in this folder`)
+  }
+
+  const commitment = await computeUploadCommitment(
+    folder.root,
+    receipt.policyId,
+    receipt.committedAt,
+    receipt.metadataDigest
+  )
+  if (commitment !== receipt.commitment.toLowerCase().replace(/^0x/, "")) {
+    throw new Error("This folder doesn't match the receipt commitment")
+  }
+
+  return {
+    format: FOLDER_PROOF_FORMAT,
+    version: FOLDER_PROOF_VERSION,
+    commitment,
+    folderRoot: folder.root,
+    policyId: receipt.policyId,
+    committedAt: receipt.committedAt,
+    metadataDigest: receipt.metadataDigest,
+    entry: folder.entries[index],
+    proof: generateProof(folder.tree, index),
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Check a file inclusion proof, and the file itself when given. Pass
+ * `expectedCommitment` (e.g. from the on-chain receipt) to pin the folder.
+ */
+export async function verifyFileProof(
+  fileProof: FileInclusionProof,
+  file?: Blob,
+  expectedCommitment?: string
+): Promise<FileProofVerification> {
+  const normalize = (hex: string) => hex.toLowerCase().replace(/^0x/, "")
+  const failed = (error: string, commitmentMatches = false): FileProofVerification => ({
+    valid: false,
+    commitmentMatches,
+    error,
+  })
+
+  if (expectedCommitment && normalize(expectedCommitment) !== normalize(fileProof.commitment)) {
+    return failed("The proof is for a different commitment")
+  }
+
+  let commitmentMatches: boolean
+  let entryValid: boolean
+  try {
+    commitmentMatches =
+      (await computeUploadCommitment(
+        fileProof.folderRoot,
+        fileProof.policyId,
+        fileProof.committedAt,
+        fileProof.metadataDigest
+      )) === normalize(fileProof.commitment)
+    entryValid =
+      fileProof.proof.version === 2 &&
+      normalizePath(fileProof.entry.path) === fileProof.entry.path &&
+      (await hashEntry(fileProof.entry)) === fileProof.proof.leaf
+  } catch {
+    return failed("The proof is malformed")
+  }
+
+  if (!commitmentMatches) {
+    return failed("The folder root doesn't reproduce the commitment")
+  }
+  if (!entryValid || !(await verifyProof(fileProof.folderRoot, fileProof.proof))) {
+    return failed("The file entry isn't included in the folder", true)
+  }
+
+  if (!file) {
+    return { valid: true, commitmentMatches }
+  }
+
+  // Files committed before v3 have v2 roots; the root binds the version
+  const fileMatches =
+    file.size === fileProof.entry.size &&
+    ((await createStreamingCommitment(file)).commitment === fileProof.entry.fileRoot ||
+      (await createStreamingCommitment(file, undefined, { version: 2 })).commitment === fileProof.entry.fileRoot)
+  return {
+    valid: fileMatches,
+    commitmentMatches,
+    fileMatches,
+    error: fileMatches ? undefined : "The file doesn't match the committed entry",
+  }
+}
+
+export function serializeFileProof(fileProof: FileInclusionProof): string {
+  return JSON.stringify(fileProof, null, 2)
+}
+
+/**
+ * Parse a file inclusion proof, rejecting anything that isn't one
+ */
+export function parseFileProof(json: string): FileInclusionProof {
+  const parsed = JSON.parse(json)
+  if (parsed?.format !== FOLDER_PROOF_FORMAT) {
+    throw new Error("Not a zkStorage folder proof")
+  }
+  if (parsed.version !== FOLDER_PROOF_VERSION) {
+    throw new Error(`Unsupported folder proof version: ${parsed.version}`)
+  }
+  if (!parsed.entry || !parsed.proof) {
+    throw new Error("Folder proof is missing its entry or Merkle proof")
+  }
+  return parsed as FileInclusionProof
+}
@@ -0,0 +1,259 @@
+/**
+ * Key Encapsulation
+ * Wraps an envelope's AES data key to each recipient's X25519 public key,
+ * so only holders of a matching private key can decrypt. One ephemeral key
+ * pair is generated per envelope; each recipient's wrapping key is
+ * HKDF-SHA256(X25519(ephemeral, recipient)), salted with both public keys
+ * and bound to the policy ID, and the data key is wrapped with AES-KW.
+ * Threshold shares of a data key are wrapped the same way, each bound to
+ * its share index as well.
+ *
+ * Wallets don't expose their private keys, so a user's X25519 key pair is
+ * derived from their signature over ENCRYPTION_KEY_MESSAGE. This needs a
+ * deterministic signature scheme (Ed25519, or ECDSA with RFC 6979 nonces);
+ * zkLogin signatures change per session and can't be used.
+ */
+
+import { fromBase64, fromHex, toHex } from "@mysten/sui/utils"
+
+export const ENCRYPTION_KEY_MESSAGE =
+  "zkStorage encryption key v1\n\nSigning this message derives the key your files are encrypted to. Only sign it on zkStorage."
+
+const WRAP_INFO = "zkStorage key wrap v1"
+const SHARE_WRAP_INFO = "zkStorage share wrap v1"
+const SEED_INFO = "zkStorage X25519 seed v1"
+
+// DER prefix of a PKCS#8 X25519 private key; the 32-byte seed follows
+const PKCS8_X25519_PREFIX = fromHex("302e020100300506032b656e04220420")
+
+export interface EncryptionKeyPair {
+  // X25519 public key, hex
+  publicKey: string
+  privateKey: CryptoKey
+}
+
+export interface WrappedKey {
+  // Recipient's X25519 public key, hex
+  publicKey: string
+  // AES-KW wrapped data key
+  wrappedKey: Uint8Array
+}
+
+export interface WrappedShare extends WrappedKey {
+  // Shamir share index the wrapping key is bound to
+  index: number
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(bytes.length)
+  new Uint8Array(buffer).set(bytes)
+  return buffer
+}
+
+/**
+ * Parse a hex X25519 public key, as shared by a recipient
+ */
+export function parsePublicKey(hex: string): Uint8Array {
+  const clean = hex.trim().toLowerCase().replace(/^0x/, "")
+  if (!/^[0-9a-f]{64}$/.test(clean)) {
+    throw new Error(`Invalid encryption public key: ${hex}`)
+  }
+  return fromHex(clean)
+}
+
+/**
+ * Derive a user's X25519 key pair from their wallet signature (base64, as
+ * returned by signPersonalMessage) over ENCRYPTION_KEY_MESSAGE
+ */
+export async function deriveEncryptionKeyPair(signature: string): Promise<EncryptionKeyPair> {
+  const ikm = await crypto.subtle.importKey("raw", toBuffer(fromBase64(signature)), "HKDF", false, ["deriveBits"])
+  const seed = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: new TextEncoder().encode(SEED_INFO) },
+      ikm,
+      256
+    )
+  )
+
+  const pkcs8 = new Uint8Array(PKCS8_X25519_PREFIX.length + seed.length)
+  pkcs8.set(PKCS8_X25519_PREFIX)
+  pkcs8.set(seed, PKCS8_X25519_PREFIX.length)
+
+  // Imported extractable once to read the public key, then kept non-extractable
+  const extractable = await crypto.subtle.importKey("pkcs8", toBuffer(pkcs8), { name: "X25519" }, true, [
+    "deriveBits",
+  ])
+  const jwk = await crypto.subtle.exportKey("jwk", extractable)
+  const privateKey = await crypto.subtle.importKey("jwk", jwk, { name: "X25519" }, false, ["deriveBits"])
+
+  return { publicKey: toHex(fromBase64(jwk.x!.replace(/-/g, "+").replace(/_/g, "/"))), privateKey }
+}
+
+async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array,
+  info: string
+): Promise<CryptoKey> {
+  const peer = await crypto.subtle.importKey("raw", toBuffer(publicKey), { name: "X25519" }, false, [])
+  const shared = await crypto.subtle.deriveBits({ name: "X25519", public: peer }, privateKey, 256)
+  const ikm = await crypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"])
+
+  const salt = new Uint8Array(64)
+  salt.set(ephemeralPublicKey)
+  salt.set(recipientPublicKey, 32)
+
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(info) },
+    ikm,
+    { name: "AES-KW", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  )
+}
+
+/**
+ * Wrap a data key to each recipient's public key
+ */
+export async function encapsulateKey(
+  dataKey: CryptoKey,
+  recipients: string[],
+  policyId: string
+): Promise<{ ephemeralPublicKey: Uint8Array; recipients: WrappedKey[] }> {
+  const publicKeys = [...new Set(recipients.map((hex) => toHex(parsePublicKey(hex))))]
+  if (publicKeys.length === 0) {
+    throw new Error("An envelope needs at least one recipient")
+  }
+
+  const ephemeral = (await crypto.subtle.generateKey({ name: "X25519" }, true, ["deriveBits"])) as CryptoKeyPair
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey))
+
+  const wrapped: WrappedKey[] = []
+  for (const publicKey of publicKeys) {
+    const recipientKey = fromHex(publicKey)
+    const kek = await deriveWrappingKey(
+      ephemeral.privateKey,
+      recipientKey,
+      ephemeralPublicKey,
+      recipientKey,
+      `${WRAP_INFO}:${policyId}`
+    )
+    wrapped.push({
+      publicKey,
+      wrappedKey: new Uint8Array(await crypto.subtle.wrapKey("raw", dataKey, kek, "AES-KW")),
+    })
+  }
+
+  return { ephemeralPublicKey, recipients: wrapped }
+}
+
+/**
+ * Unwrap the data key with the recipient's key pair. Fails if the key pair
+ * isn't a recipient, or the envelope's wrapped key or policy ID was altered.
+ */
+export async function decapsulateKey(
+  envelope: { ephemeralPublicKey: Uint8Array; recipients: WrappedKey[]; policyId: string },
+  keyPair: EncryptionKeyPair
+): Promise<CryptoKey> {
+  const entry = envelope.recipients.find((recipient) => recipient.publicKey === keyPair.publicKey)
+  if (!entry) {
+    throw new Error("This wallet isn't a recipient of the encrypted data")
+  }
+
+  const kek = await deriveWrappingKey(
+    keyPair.privateKey,
+    envelope.ephemeralPublicKey,
+    envelope.ephemeralPublicKey,
+    fromHex(keyPair.publicKey),
+    `${WRAP_INFO}:${envelope.policyId}`
+  )
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      toBuffer(entry.wrappedKey),
+      kek,
+      "AES-KW",
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["decrypt"]
+    )
+  } catch {
+    throw new Error("Failed to unwrap the data key; the envelope may have been altered")
+  }
+}
+
+/**
+ * Wrap each Shamir share of a data key to the holder's public key at the
+ * same position, binding it to the policy ID and share index
+ */
+export async function encapsulateShares(
+  shares: { index: number; share: Uint8Array }[],
+  holders: string[],
+  policyId: string
+): Promise<{ ephemeralPublicKey: Uint8Array; shares: WrappedShare[] }> {
+  if (shares.length !== holders.length) {
+    throw new Error("Every share needs exactly one key holder")
+  }
+
+  const ephemeral = (await crypto.subtle.generateKey({ name: "X25519" }, true, ["deriveBits"])) as CryptoKeyPair
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey))
+
+  const wrapped: WrappedShare[] = []
+  for (let i = 0; i < shares.length; i++) {
+    const { index, share } = shares[i]
+    const holderKey = parsePublicKey(holders[i])
+    const kek = await deriveWrappingKey(
+      ephemeral.privateKey,
+      holderKey,
+      ephemeralPublicKey,
+      holderKey,
+      `${SHARE_WRAP_INFO}:${policyId}:${index}`
+    )
+    // AES-KW only wraps keys, so the 32-byte share is imported as one
+    const shareKey = await crypto.subtle.importKey("raw", toBuffer(share), { name: "AES-GCM" }, true, ["encrypt"])
+    wrapped.push({
+      index,
+      publicKey: toHex(holderKey),
+      wrappedKey: new Uint8Array(await crypto.subtle.wrapKey("raw", shareKey, kek, "AES-KW")),
+    })
+  }
+
+  return { ephemeralPublicKey, shares: wrapped }
+}
+
+/**
+ * Unwrap a share wrapped to the key pair by encapsulateShares
+ */
+export async function decapsulateShare(
+  ephemeralPublicKey: Uint8Array,
+  wrapped: WrappedShare,
+  keyPair: EncryptionKeyPair,
+  policyId: string
+): Promise<Uint8Array> {
+  if (wrapped.publicKey !== keyPair.publicKey) {
+    throw new Error("This share isn't wrapped to this wallet")
+  }
+
+  const kek = await deriveWrappingKey(
+    keyPair.privateKey,
+    ephemeralPublicKey,
+    ephemeralPublicKey,
+    fromHex(keyPair.publicKey),
+    `${SHARE_WRAP_INFO}:${policyId}:${wrapped.index}`
+  )
+  try {
+    const shareKey = await crypto.subtle.unwrapKey(
+      "raw",
+      toBuffer(wrapped.wrappedKey),
+      kek,
+      "AES-KW",
+      { name: "AES-GCM" },
+      true,
+      ["encrypt"]
+    )
+    return new Uint8Array(await crypto.subtle.exportKey("raw", shareKey))
+  } catch {
+    throw new Error(`Failed to unwrap share ${wrapped.index}; it may have been altered`)
+  }
+}
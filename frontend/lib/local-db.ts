@@ -0,0 +1,71 @@
+/**
+ * Local Database
+ * The app's IndexedDB database and promise helpers, shared by the stores
+ * kept in the browser (upload jobs, Merkle trees)
+ */
+
+const DB_NAME = "zkStorage"
+// v2 adds the Merkle tree store
+const DB_VERSION = 2
+
+// Upload job metadata, rewritten as chunks complete
+export const JOB_STORE = "uploadJobs"
+// Envelope bytes, written once per job
+export const ENVELOPE_STORE = "uploadEnvelopes"
+// Serialized Merkle trees, keyed by upload commitment
+export const TREE_STORE = "merkleTrees"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Whether IndexedDB is available in this environment
+ */
+export function isLocalDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined"
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"))
+  })
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!isLocalDbAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(ENVELOPE_STORE)) {
+          db.createObjectStore(ENVELOPE_STORE)
+        }
+        if (!db.objectStoreNames.contains(TREE_STORE)) {
+          db.createObjectStore(TREE_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((err) => {
+      dbPromise = null
+      throw err
+    })
+  }
+
+  return dbPromise
+}
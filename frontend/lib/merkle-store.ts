@@ -0,0 +1,217 @@
+/**
+ * Merkle Tree Storage
+ * Compact binary serialization of MerkleTree, persisted in IndexedDB next to
+ * the upload record or as an encrypted Walrus blob, so inclusion proofs can
+ * be generated long after the plaintext is gone.
+ *
+ * Format (integers little-endian):
+ *   [4 bytes magic "ZKMT"][1 byte format version][1 byte tree version]
+ *   [1 byte chunking mode][1 byte reserved][4 bytes leaf count]
+ *   [4 bytes per chunking parameter][32 bytes root]
+ *   [32 bytes per node, level by level from the padded leaves]
+ * The depth and level widths follow from the leaf count.
+ */
+
+import type { ChunkingParams } from "./chunking"
+import { TREE_STORE, openDb, requestToPromise, transactionDone } from "./local-db"
+import { bytesToHex, hexToBytes, type MerkleTree, type MerkleVersion } from "./merkle"
+import {
+  decryptWithSeal,
+  deserializeEnvelope,
+  encryptWithSeal,
+  serializeEnvelope,
+  type DecryptionKeys,
+  type SealPolicy,
+} from "./seal"
+import { retrieveFromWalrus, uploadToWalrus, type UploadOptions, type UploadResult } from "./walrus"
+
+const TREE_MAGIC = new TextEncoder().encode("ZKMT")
+const TREE_FORMAT_VERSION = 1
+const HEADER_SIZE = 12
+const NODE_SIZE = 32
+
+// Chunking mode byte; 0 for trees that don't record their chunking
+const CHUNKING_MODES = { none: 0, fixed: 1, cdc: 2 } as const
+
+function chunkingFields(chunking?: ChunkingParams): number[] {
+  if (!chunking) return []
+  return chunking.mode === "fixed"
+    ? [chunking.size]
+    : [chunking.minSize, chunking.avgSize, chunking.maxSize]
+}
+
+function nodeBytes(node: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/.test(node)) {
+    throw new Error(`Invalid Merkle node: ${node}`)
+  }
+  return hexToBytes(node)
+}
+
+/**
+ * Serialize a tree. Nodes take 32 bytes each, half their hex size.
+ */
+export function serializeMerkleTree(tree: MerkleTree): Uint8Array {
+  const leafCount = tree.leaves.length
+  const params = chunkingFields(tree.chunking)
+  const nodeCount = tree.nodes.reduce((sum, level) => sum + level.length, 0)
+
+  if (tree.depth !== Math.ceil(Math.log2(leafCount)) || tree.nodes.length !== tree.depth + 1) {
+    throw new Error("Merkle tree depth doesn't match its leaf count")
+  }
+
+  const result = new Uint8Array(HEADER_SIZE + params.length * 4 + NODE_SIZE * (1 + nodeCount))
+  const view = new DataView(result.buffer)
+  result.set(TREE_MAGIC, 0)
+  result[4] = TREE_FORMAT_VERSION
+  result[5] = tree.version
+  result[6] = CHUNKING_MODES[tree.chunking?.mode ?? "none"]
+  view.setUint32(8, leafCount, true)
+
+  let offset = HEADER_SIZE
+  for (const value of params) {
+    view.setUint32(offset, value, true)
+    offset += 4
+  }
+
+  result.set(nodeBytes(tree.root), offset)
+  offset += NODE_SIZE
+  for (const level of tree.nodes) {
+    for (const node of level) {
+      result.set(nodeBytes(node), offset)
+      offset += NODE_SIZE
+    }
+  }
+
+  return result
+}
+
+/**
+ * Parse a serialized tree, checking its shape (not its hashes: compare the
+ * root with the receipt's file root before relying on it)
+ */
+export function deserializeMerkleTree(data: Uint8Array): MerkleTree {
+  if (data.length < HEADER_SIZE || TREE_MAGIC.some((byte, i) => data[i] !== byte)) {
+    throw new Error("Not a serialized Merkle tree")
+  }
+  if (data[4] !== TREE_FORMAT_VERSION) {
+    throw new Error(`Unsupported Merkle tree format version: ${data[4]}`)
+  }
+
+  const version = data[5] as MerkleVersion
+  if (version !== 1 && version !== 2 && version !== 3) {
+    throw new Error(`Unsupported Merkle tree version: ${version}`)
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const leafCount = view.getUint32(8, true)
+  if (leafCount === 0) {
+    throw new Error("Serialized Merkle tree has no leaves")
+  }
+  const depth = Math.ceil(Math.log2(leafCount))
+
+  let offset = HEADER_SIZE
+  const readParam = () => {
+    const value = view.getUint32(offset, true)
+    offset += 4
+    return value
+  }
+
+  let chunking: ChunkingParams | undefined
+  switch (data[6]) {
+    case CHUNKING_MODES.none:
+      break
+    case CHUNKING_MODES.fixed:
+      chunking = { mode: "fixed", size: readParam() }
+      break
+    case CHUNKING_MODES.cdc:
+      chunking = { mode: "cdc", minSize: readParam(), avgSize: readParam(), maxSize: readParam() }
+      break
+    default:
+      throw new Error(`Unknown chunking mode: ${data[6]}`)
+  }
+
+  // 2^(depth+1) - 1 nodes across all levels, plus the root
+  const expectedLength = offset + NODE_SIZE * 2 ** (depth + 1)
+  if (data.length !== expectedLength) {
+    throw new Error(`Serialized Merkle tree is ${data.length} bytes, expected ${expectedLength}`)
+  }
+
+  const readNode = () => {
+    const node = bytesToHex(data.subarray(offset, offset + NODE_SIZE))
+    offset += NODE_SIZE
+    return node
+  }
+
+  const root = readNode()
+  const nodes: string[][] = []
+  for (let level = 0; level <= depth; level++) {
+    const width = 2 ** (depth - level)
+    const nodesAtLevel: string[] = new Array(width)
+    for (let i = 0; i < width; i++) nodesAtLevel[i] = readNode()
+    nodes.push(nodesAtLevel)
+  }
+
+  return {
+    version,
+    root,
+    leaves: nodes[0].slice(0, leafCount),
+    depth,
+    nodes,
+    chunking,
+  }
+}
+
+/**
+ * Keep a tree in IndexedDB under its upload commitment
+ */
+export async function saveMerkleTree(commitment: string, tree: MerkleTree): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(TREE_STORE, "readwrite")
+  tx.objectStore(TREE_STORE).put(serializeMerkleTree(tree), commitment)
+  await transactionDone(tx)
+}
+
+export async function loadMerkleTree(commitment: string): Promise<MerkleTree | null> {
+  const db = await openDb()
+  const data: Uint8Array | undefined = await requestToPromise(
+    db.transaction(TREE_STORE, "readonly").objectStore(TREE_STORE).get(commitment)
+  )
+  return data ? deserializeMerkleTree(data) : null
+}
+
+export async function deleteMerkleTree(commitment: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(TREE_STORE, "readwrite")
+  tx.objectStore(TREE_STORE).delete(commitment)
+  await transactionDone(tx)
+}
+
+/**
+ * Store a tree as its own Walrus blob, encrypted under the file's policy to
+ * the given recipients' public keys. Leaf hashes of small or guessable
+ * chunks can reveal content, so trees are never stored in the clear.
+ */
+export async function storeMerkleTreeOnWalrus(
+  tree: MerkleTree,
+  policy: SealPolicy,
+  recipients: string[],
+  epochs: number,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const envelope = await encryptWithSeal(serializeMerkleTree(tree), policy, recipients)
+  return uploadToWalrus(serializeEnvelope(envelope), epochs, options)
+}
+
+/**
+ * Fetch and decrypt a tree stored with storeMerkleTreeOnWalrus
+ */
+export async function loadMerkleTreeFromWalrus(
+  blobId: string,
+  policy: SealPolicy,
+  requesterAddress: string,
+  keys: DecryptionKeys,
+  expectedDigest?: string
+): Promise<MerkleTree> {
+  const envelope = deserializeEnvelope(await retrieveFromWalrus(blobId, expectedDigest))
+  return deserializeMerkleTree(await decryptWithSeal(envelope, policy, requesterAddress, keys))
+}
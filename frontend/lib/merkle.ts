@@ -1,18 +1,70 @@
 /**
  * Merkle Tree Commitment Utilities
- * Creates cryptographic commitments for data integrity verification
+ * Creates cryptographic commitments for data integrity verification.
+ *
+ * Tree formats:
+ * - v1 (legacy): SHA-256 leaves, sorted children hashed as concatenated
+ *   hex, padding by repeating the last leaf. Kept so old commitments
+ *   still verify; new trees use v2.
+ * - v2: Poseidon over BN254 field elements (64-char hex) with leaf/node
+ *   domain tags, ordered children and zero padding. The root commits to
+ *   the version and leaf count, so it can be constrained by the circuits
+ *   and doesn't collide across versions or padded lengths. Leaves hash the
+ *   chunk's SHA-256 digest; kept so older commitments still verify.
+ * - v3: v2 with leaves hashed from the chunk's bytes as field elements, so
+ *   a circuit can constrain what a chunk contains. Poseidon over the bytes
+ *   runs at about 0.4 MB/s, so large uploads commit in a worker.
+ *
+ * Leaves are fixed 16 KB chunks by default, or content-defined chunks (see
+ * chunking.ts); the chunking parameters are recorded with the commitment.
  */
 
+import { FIXED_CHUNKING, FIXED_CHUNK_SIZE, createChunker, splitChunks, type ChunkingParams } from "./chunking"
+import {
+  commitmentMetadataDigest,
+  decodeCommitmentMetadata,
+  encodeCommitmentMetadata,
+  toCanonicalMetadata,
+  type CommitmentMetadataExtras,
+} from "./commitment-metadata"
+import { createProgressReporter, type ProgressCallback } from "./progress"
+import { bytesToFields, digestToFields, fieldToHex, hexToField, poseidonHash } from "./poseidon"
+
+export type MerkleVersion = 1 | 2 | 3
+
+export const MERKLE_VERSION: MerkleVersion = 3
+
+// Domain tags keeping Poseidon leaves and internal nodes apart
+const LEAF_TAG = BigInt(0)
+const NODE_TAG = BigInt(1)
+// Stands in for missing leaves when padding a Poseidon tree
+const EMPTY_NODE = fieldToHex(BigInt(0))
+
+// Leaf size with the default, fixed-size chunking
+export const COMMITMENT_CHUNK_SIZE = FIXED_CHUNK_SIZE
+// Leaves hashed concurrently by the streaming builder (1 MiB of data)
+const STREAM_BATCH_SIZE = 64
+// Chunk field elements absorbed per Poseidon call in a v3 leaf, besides
+// the running hash (circomlib's Poseidon takes at most 16 inputs)
+const LEAF_FIELDS_PER_HASH = 15
+
 export interface MerkleTree {
+  version: MerkleVersion
   root: string
   leaves: string[]
   depth: number
   nodes: string[][]
+  // How the data was split into leaves, when built by createCommitment
+  chunking?: ChunkingParams
 }
 
 export interface MerkleProof {
+  // Absent on proofs created before versioning, which are v1
+  version?: MerkleVersion
   leaf: string
   leafIndex: number
+  // Number of real (unpadded) leaves, committed in v2 and later roots
+  leafCount?: number
   siblings: string[]
   pathIndices: number[]
 }
@@ -20,42 +72,118 @@ export interface MerkleProof {
 /**
  * Hash data using SHA-256
  */
-async function sha256(data: Uint8Array): Promise<string> {
+async function sha256Bytes(data: Uint8Array): Promise<Uint8Array> {
   // Create a new ArrayBuffer to avoid SharedArrayBuffer type issues
   const buffer = new ArrayBuffer(data.length)
   new Uint8Array(buffer).set(data)
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer)
-  const hashArray = new Uint8Array(hashBuffer)
-  return Array.from(hashArray)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("")
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", buffer))
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  return bytesToHex(await sha256Bytes(data))
 }
 
 /**
- * Hash two nodes together (for internal tree nodes)
+ * Hash a chunk into a leaf. v3 starts from Poseidon(tag, byte length) and
+ * absorbs the chunk's field elements (see bytesToFields) 15 at a time, the
+ * last group zero-padded; v2 hashes the chunk's SHA-256 digest as two
+ * 128-bit field elements instead. See circuits/README.md.
  */
-async function hashPair(left: string, right: string): Promise<string> {
-  // Sort to ensure consistent ordering
-  const combined = left < right ? left + right : right + left
-  const data = new TextEncoder().encode(combined)
-  return sha256(data)
+async function hashLeaf(chunk: Uint8Array, version: MerkleVersion): Promise<string> {
+  if (version === 1) {
+    return sha256(chunk)
+  }
+  if (version === 2) {
+    return fieldToHex(await poseidonHash([LEAF_TAG, ...digestToFields(await sha256Bytes(chunk))]))
+  }
+
+  const fields = bytesToFields(chunk)
+  let state = await poseidonHash([LEAF_TAG, BigInt(chunk.length)])
+  for (let i = 0; i < fields.length; i += LEAF_FIELDS_PER_HASH) {
+    const group = fields.slice(i, i + LEAF_FIELDS_PER_HASH)
+    while (group.length < LEAF_FIELDS_PER_HASH) group.push(BigInt(0))
+    state = await poseidonHash([state, ...group])
+  }
+  return fieldToHex(state)
 }
 
 /**
- * Create a Merkle tree from data chunks
+ * Hash two nodes together (for internal tree nodes). v2 and later keep
+ * child order, as in the circuits' Merkle path checks.
  */
-export async function createMerkleTree(chunks: Uint8Array[]): Promise<MerkleTree> {
+async function hashPair(left: string, right: string, version: MerkleVersion): Promise<string> {
+  if (version === 1) {
+    // Sort to ensure consistent ordering
+    const combined = left < right ? left + right : right + left
+    return sha256(new TextEncoder().encode(combined))
+  }
+  return fieldToHex(await poseidonHash([NODE_TAG, hexToField(left), hexToField(right)]))
+}
+
+/**
+ * Root of a tree from the top of its node levels. v2 and later bind the
+ * version and leaf count, so trees padded to the same width stay distinct.
+ */
+async function finalizeRoot(top: string, leafCount: number, version: MerkleVersion): Promise<string> {
+  if (version === 1) {
+    return top
+  }
+  return fieldToHex(await poseidonHash([BigInt(version), BigInt(leafCount), hexToField(top)]))
+}
+
+/**
+ * Leaf hash of a chunk, for checking revealed chunks against their proofs
+ */
+export async function hashChunk(chunk: Uint8Array, version: MerkleVersion = MERKLE_VERSION): Promise<string> {
+  return hashLeaf(chunk, version)
+}
+
+/**
+ * Create a Merkle tree from data chunks, reporting bytes hashed
+ */
+export async function createMerkleTree(
+  chunks: Uint8Array[],
+  onProgress?: ProgressCallback,
+  version: MerkleVersion = MERKLE_VERSION
+): Promise<MerkleTree> {
   if (chunks.length === 0) {
     throw new Error("Cannot create Merkle tree from empty chunks")
   }
 
+  const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  const report = createProgressReporter(totalBytes, onProgress)
+  let hashedBytes = 0
+  report(0)
+
   // Hash all leaf nodes
-  const leaves = await Promise.all(chunks.map((chunk) => sha256(chunk)))
+  const leaves = await Promise.all(
+    chunks.map(async (chunk) => {
+      const leaf = await hashLeaf(chunk, version)
+      hashedBytes += chunk.length
+      report(hashedBytes)
+      return leaf
+    })
+  )
+
+  return createMerkleTreeFromLeaves(leaves, version)
+}
+
+/**
+ * Build a tree over already hashed leaves, e.g. the entries of a folder
+ * commitment (see folder-commitment.ts)
+ */
+export async function createMerkleTreeFromLeaves(
+  leaves: string[],
+  version: MerkleVersion = MERKLE_VERSION
+): Promise<MerkleTree> {
+  if (leaves.length === 0) {
+    throw new Error("Cannot create Merkle tree from empty leaves")
+  }
 
   // Pad to power of 2 if needed
-  let paddedLeaves = [...leaves]
+  const paddedLeaves = [...leaves]
   while (paddedLeaves.length & (paddedLeaves.length - 1)) {
-    paddedLeaves.push(paddedLeaves[paddedLeaves.length - 1])
+    paddedLeaves.push(version === 1 ? paddedLeaves[paddedLeaves.length - 1] : EMPTY_NODE)
   }
 
   // Build tree bottom-up
@@ -65,7 +193,7 @@ export async function createMerkleTree(chunks: Uint8Array[]): Promise<MerkleTree
   while (currentLevel.length > 1) {
     const nextLevel: string[] = []
     for (let i = 0; i < currentLevel.length; i += 2) {
-      const hash = await hashPair(currentLevel[i], currentLevel[i + 1])
+      const hash = await hashPair(currentLevel[i], currentLevel[i + 1], version)
       nextLevel.push(hash)
     }
     nodes.push(nextLevel)
@@ -73,7 +201,8 @@ export async function createMerkleTree(chunks: Uint8Array[]): Promise<MerkleTree
   }
 
   return {
-    root: currentLevel[0],
+    version,
+    root: await finalizeRoot(currentLevel[0], leaves.length, version),
     leaves,
     depth: nodes.length - 1,
     nodes,
@@ -81,30 +210,31 @@ export async function createMerkleTree(chunks: Uint8Array[]): Promise<MerkleTree
 }
 
 /**
- * Create a commitment from raw file data
+ * Create a commitment from raw file data. Pass `version: 1` to recompute a
+ * legacy commitment, and the recorded chunking to recompute one made with
+ * content-defined chunks.
  */
-export async function createCommitment(data: Uint8Array): Promise<{
+export async function createCommitment(
+  data: Uint8Array,
+  onProgress?: ProgressCallback,
+  version: MerkleVersion = MERKLE_VERSION,
+  chunking: ChunkingParams = FIXED_CHUNKING
+): Promise<{
   commitment: string
   tree: MerkleTree
 }> {
-  // Split data into chunks (16KB each)
-  const CHUNK_SIZE = 16 * 1024
-  const chunks: Uint8Array[] = []
-
-  for (let i = 0; i < data.length; i += CHUNK_SIZE) {
-    chunks.push(data.slice(i, Math.min(i + CHUNK_SIZE, data.length)))
-  }
+  const chunks = splitChunks(data, chunking)
 
   // If single chunk or empty, still create a tree
   if (chunks.length === 0) {
     chunks.push(new Uint8Array(0))
   }
 
-  const tree = await createMerkleTree(chunks)
+  const tree = await createMerkleTree(chunks, onProgress, version)
 
   return {
     commitment: tree.root,
-    tree,
+    tree: { ...tree, chunking },
   }
 }
 
@@ -134,34 +264,186 @@ export function generateProof(tree: MerkleTree, leafIndex: number): MerkleProof
   }
 
   return {
+    version: tree.version,
     leaf: tree.leaves[leafIndex],
     leafIndex,
+    leafCount: tree.leaves.length,
     siblings,
     pathIndices,
   }
 }
 
 /**
- * Verify a Merkle proof
+ * Verify a Merkle proof against a root of the proof's version
  */
 export async function verifyProof(
   root: string,
   proof: MerkleProof
 ): Promise<boolean> {
+  const version = proof.version ?? 1
   let current = proof.leaf
 
-  for (let i = 0; i < proof.siblings.length; i++) {
-    const sibling = proof.siblings[i]
-    const pathIndex = proof.pathIndices[i]
+  if (version >= 2) {
+    // The path must lead to the claimed position among the committed leaves
+    if (
+      proof.leafCount === undefined ||
+      proof.leafIndex < 0 ||
+      proof.leafIndex >= proof.leafCount ||
+      proof.siblings.length !== Math.ceil(Math.log2(proof.leafCount)) ||
+      proof.pathIndices.some((p, level) => p !== 1 - ((proof.leafIndex >> level) & 1))
+    ) {
+      return false
+    }
+  }
+
+  try {
+    for (let i = 0; i < proof.siblings.length; i++) {
+      const sibling = proof.siblings[i]
+      const pathIndex = proof.pathIndices[i]
 
-    if (pathIndex === 0) {
-      current = await hashPair(sibling, current)
-    } else {
-      current = await hashPair(current, sibling)
+      if (pathIndex === 0) {
+        current = await hashPair(sibling, current, version)
+      } else {
+        current = await hashPair(current, sibling, version)
+      }
     }
+
+    return (await finalizeRoot(current, proof.leafCount ?? 0, version)) === root
+  } catch {
+    // Malformed field elements
+    return false
   }
+}
 
-  return current === root
+export interface StreamingCommitmentOptions {
+  // Only used for progress; defaults to the Blob's size
+  totalBytes?: number
+  chunking?: ChunkingParams
+  // Also return the whole tree, about 150 bytes of memory per leaf, so it
+  // can be persisted (see merkle-store.ts)
+  keepTree?: boolean
+  // Defaults to MERKLE_VERSION; 2 recomputes an older commitment
+  version?: Exclude<MerkleVersion, 1>
+}
+
+/**
+ * Create a commitment from a stream, giving the same root as
+ * createCommitment without holding the data or the tree in memory: leaves
+ * are hashed a batch at a time and folded into one pending node per level.
+ */
+export async function createStreamingCommitment(
+  source: Blob | ReadableStream<Uint8Array>,
+  onProgress?: ProgressCallback,
+  options: StreamingCommitmentOptions = {}
+): Promise<{
+  commitment: string
+  leafCount: number
+  size: number
+  tree?: MerkleTree
+}> {
+  const {
+    totalBytes = source instanceof Blob ? source.size : 0,
+    chunking = FIXED_CHUNKING,
+    keepTree = false,
+    version = MERKLE_VERSION,
+  } = options
+  const report = createProgressReporter(totalBytes, onProgress)
+  const frontier: (string | null)[] = []
+  let leafCount = 0
+  let size = 0
+
+  // Nodes of each level in order, when keeping the tree
+  const levels: string[][] | null = keepTree ? [] : null
+  const record = (level: number, node: string) => {
+    if (levels) (levels[level] ??= []).push(node)
+  }
+
+  const addLeaf = async (leaf: string) => {
+    let carry = leaf
+    let level = 0
+    record(level, carry)
+    while (frontier[level]) {
+      carry = await hashPair(frontier[level]!, carry, version)
+      frontier[level] = null
+      level++
+      record(level, carry)
+    }
+    frontier[level] = carry
+    leafCount++
+  }
+
+  // Leaves within a batch are hashed in parallel, then added in order
+  let batch: Uint8Array[] = []
+  const flush = async () => {
+    const leaves = await Promise.all(batch.map((chunk) => hashLeaf(chunk, version)))
+    for (const leaf of leaves) await addLeaf(leaf)
+    size += batch.reduce((sum, chunk) => sum + chunk.length, 0)
+    batch = []
+    report(size)
+  }
+
+  report(0)
+  const chunker = createChunker(chunking)
+  const reader = (source instanceof Blob ? source.stream() : source).getReader()
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      for (const chunk of chunker.push(value)) {
+        batch.push(chunk)
+        if (batch.length === STREAM_BATCH_SIZE) await flush()
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  batch.push(...chunker.finish())
+  // Empty data still gets one (empty) leaf
+  if (leafCount === 0 && batch.length === 0) {
+    batch.push(new Uint8Array(0))
+  }
+  await flush()
+
+  // Pad with empty subtrees up to the next power of two, as createMerkleTree does
+  const depth = Math.ceil(Math.log2(leafCount))
+  const emptyAt: string[] = []
+  let carry: string | null = null
+  let empty = EMPTY_NODE
+  for (let level = 0; level < depth; level++) {
+    // The carried right-edge node is new at this level
+    if (carry) record(level, carry)
+    const left = frontier[level]
+    if (left) {
+      carry = await hashPair(left, carry ?? empty, version)
+    } else if (carry) {
+      carry = await hashPair(carry, empty, version)
+    }
+    emptyAt.push(empty)
+    empty = await hashPair(empty, empty, version)
+  }
+  if (carry) record(depth, carry)
+
+  const commitment = await finalizeRoot(carry ?? frontier[depth]!, leafCount, version)
+  let tree: MerkleTree | undefined
+  if (levels) {
+    // Fill in the empty subtrees right of the data
+    for (let level = 0; level < depth; level++) {
+      while (levels[level].length < 2 ** (depth - level)) levels[level].push(emptyAt[level])
+    }
+    tree = {
+      version,
+      root: commitment,
+      leaves: levels[0].slice(0, leafCount),
+      depth,
+      nodes: levels,
+      chunking,
+    }
+  }
+
+  return { commitment, leafCount, size, tree }
 }
 
 /**
@@ -171,35 +453,138 @@ export async function hashFile(data: Uint8Array): Promise<string> {
   return sha256(data)
 }
 
+export interface CommitmentMetadata extends CommitmentMetadataExtras {
+  // Hex policy ID
+  policyId: string
+  // Upload time in ms
+  timestamp: number
+  // Defaults to fixed-size chunks
+  chunking?: ChunkingParams
+}
+
+export interface UploadCommitment {
+  // Merkle root of the file
+  commitment: string
+  policyHash: string
+  combinedCommitment: string
+  // Commitment timestamp in seconds, as the circuit takes it
+  timestamp: number
+  // Needed to recompute the root from the file
+  chunking: ChunkingParams
+  // Canonical encoding of the metadata the commitment is made from (hex),
+  // and its SHA-256 digest; see commitment-metadata.ts
+  metadata: string
+  metadataDigest: string
+  // The file's Merkle tree, when asked to keep it
+  tree?: MerkleTree
+}
+
 /**
- * Create commitment with metadata
+ * Create the upload commitment, Poseidon(root, policyId, timestamp,
+ * metadata digest high, low), as computed by the storage proof circuit. The
+ * timestamp and metadata digest must be kept alongside the root to prove
+ * against the commitment later.
  */
 export async function createCommitmentWithMetadata(
   data: Uint8Array,
-  metadata: {
-    retentionDays: number
-    consentSigned: boolean
-    timestamp: number
-  }
-): Promise<{
-  commitment: string
-  metadataHash: string
-  combinedCommitment: string
-}> {
-  const { commitment } = await createCommitment(data)
+  metadata: CommitmentMetadata,
+  onProgress?: ProgressCallback
+): Promise<UploadCommitment> {
+  const { commitment } = await createCommitment(data, onProgress, MERKLE_VERSION, metadata.chunking)
+  return commitToPolicy(commitment, metadata)
+}
 
-  // Hash the metadata
-  const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata))
-  const metadataHash = await sha256(metadataBytes)
+/**
+ * Streaming counterpart of createCommitmentWithMetadata, for files too large
+ * to hold in memory (see commitment-worker.ts to run it off the main thread)
+ */
+export async function createStreamingCommitmentWithMetadata(
+  source: Blob | ReadableStream<Uint8Array>,
+  metadata: CommitmentMetadata,
+  onProgress?: ProgressCallback,
+  options: Omit<StreamingCommitmentOptions, "chunking"> = {}
+): Promise<UploadCommitment> {
+  const { commitment, tree } = await createStreamingCommitment(source, onProgress, {
+    ...options,
+    chunking: metadata.chunking,
+  })
+  return { ...(await commitToPolicy(commitment, metadata)), tree }
+}
 
-  // Combine data commitment with metadata hash
-  const combinedCommitment = await hashPair(commitment, metadataHash)
+/**
+ * Commit a root that's already known (e.g. a folder root) to a policy
+ */
+export async function commitToPolicy(commitment: string, metadata: CommitmentMetadata): Promise<UploadCommitment> {
+  const record = await toCanonicalMetadata({
+    fileRoot: commitment,
+    policyId: metadata.policyId,
+    timestamp: Math.floor(metadata.timestamp / 1000),
+    chunking: metadata.chunking,
+    extras: { fileName: metadata.fileName, mimeType: metadata.mimeType, owner: metadata.owner },
+  })
+  const encoded = encodeCommitmentMetadata(record)
+  const metadataDigest = await commitmentMetadataDigest(encoded)
+  const policyHash = await poseidonHash([hexToField(record.policyId), BigInt(record.timestamp)])
 
   return {
     commitment,
-    metadataHash,
-    combinedCommitment,
+    policyHash: fieldToHex(policyHash),
+    combinedCommitment: await computeUploadCommitment(
+      record.fileRoot,
+      record.policyId,
+      record.timestamp,
+      metadataDigest
+    ),
+    timestamp: record.timestamp,
+    chunking: record.chunking,
+    metadata: bytesToHex(encoded),
+    metadataDigest,
+  }
+}
+
+/**
+ * Recompute an upload commitment from its encoded metadata, as another
+ * implementation would
+ */
+export async function commitmentFromMetadata(encoded: Uint8Array): Promise<string> {
+  const record = decodeCommitmentMetadata(encoded)
+  return computeUploadCommitment(
+    record.fileRoot,
+    record.policyId,
+    record.timestamp,
+    await commitmentMetadataDigest(encoded)
+  )
+}
+
+/**
+ * Recompute an upload commitment from a file root, policy ID, the
+ * commitment timestamp in seconds and the metadata digest
+ */
+export async function computeUploadCommitment(
+  fileRoot: string,
+  policyId: string,
+  timestamp: number,
+  metadataDigest: string
+): Promise<string> {
+  return fieldToHex(
+    await poseidonHash([
+      hexToField(fileRoot),
+      hexToField(policyId),
+      BigInt(timestamp),
+      ...metadataDigestFields(metadataDigest),
+    ])
+  )
+}
+
+/**
+ * The metadata digest as the circuit takes it: two 128-bit field elements
+ */
+export function metadataDigestFields(metadataDigest: string): [bigint, bigint] {
+  const clean = metadataDigest.replace(/^0x/, "")
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error("Invalid metadata digest: expected 32 bytes of hex")
   }
+  return digestToFields(hexToBytes(clean))
 }
 
 /**
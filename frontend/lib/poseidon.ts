@@ -0,0 +1,100 @@
+/**
+ * Poseidon Hashing
+ * BN254 field helpers and a cached circomlibjs Poseidon instance, shared by
+ * the Merkle commitment and proof input generation so both hash the same
+ * way as the circuits
+ */
+
+// @ts-expect-error - circomlibjs doesn't have types
+import { buildPoseidon } from "circomlibjs"
+
+// Scalar field of BN254, the curve the circuits are compiled for
+export const FIELD_MODULUS = BigInt(
+  "21888242871839275222246405745257275088548364400416711856985810568382758024705"
+)
+
+// The parts of circomlibjs' Poseidon used here
+interface Poseidon {
+  (inputs: bigint[]): Uint8Array
+  F: { toString(value: Uint8Array): string }
+}
+
+// Cached Poseidon instance
+let poseidonInstance: Promise<Poseidon> | null = null
+
+function getPoseidon(): Promise<Poseidon> {
+  if (!poseidonInstance) {
+    poseidonInstance = (buildPoseidon() as Promise<Poseidon>).catch((err) => {
+      poseidonInstance = null
+      throw err
+    })
+  }
+  return poseidonInstance
+}
+
+/**
+ * Poseidon hash of field elements, matching circomlib's Poseidon(n)
+ */
+export async function poseidonHash(inputs: bigint[]): Promise<bigint> {
+  const poseidon = await getPoseidon()
+  return BigInt(poseidon.F.toString(poseidon(inputs)))
+}
+
+/**
+ * Field element as 64-char hex, the format commitments are stored in
+ */
+export function fieldToHex(value: bigint): string {
+  return value.toString(16).padStart(64, "0")
+}
+
+/**
+ * Parse a hex field element, rejecting values outside the field
+ */
+export function hexToField(hex: string): bigint {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex
+  if (!/^[0-9a-fA-F]{1,64}$/.test(clean)) {
+    throw new Error(`Invalid field element hex: ${hex}`)
+  }
+  const value = BigInt("0x" + clean)
+  if (value >= FIELD_MODULUS) {
+    throw new Error("Value is not a BN254 field element")
+  }
+  return value
+}
+
+/**
+ * Encode a 32-byte digest as two 128-bit field elements (high, low), so it
+ * fits the field without truncation
+ */
+export function digestToFields(digest: Uint8Array): [bigint, bigint] {
+  if (digest.length !== 32) {
+    throw new Error(`Expected a 32-byte digest, got ${digest.length} bytes`)
+  }
+  let high = BigInt(0)
+  let low = BigInt(0)
+  for (let i = 0; i < 16; i++) {
+    high = (high << BigInt(8)) | BigInt(digest[i])
+    low = (low << BigInt(8)) | BigInt(digest[i + 16])
+  }
+  return [high, low]
+}
+
+// Bytes per field element when encoding data, so every element is below the modulus
+export const BYTES_PER_FIELD = 31
+
+/**
+ * Encode bytes as field elements, big-endian, BYTES_PER_FIELD bytes each;
+ * the last element takes what's left. The encoding is only unambiguous
+ * together with the byte length.
+ */
+export function bytesToFields(bytes: Uint8Array): bigint[] {
+  const fields: bigint[] = []
+  for (let offset = 0; offset < bytes.length; offset += BYTES_PER_FIELD) {
+    let value = BigInt(0)
+    for (const byte of bytes.subarray(offset, offset + BYTES_PER_FIELD)) {
+      value = (value << BigInt(8)) | BigInt(byte)
+    }
+    fields.push(value)
+  }
+  return fields
+}
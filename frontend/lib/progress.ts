@@ -0,0 +1,78 @@
+/**
+ * Progress Reporting
+ * Byte-level progress with throughput and ETA for long-running work
+ * (hashing, encryption, Walrus transfers)
+ */
+
+export interface TransferProgress {
+  // Bytes processed so far
+  loaded: number
+  // Total bytes, or 0 when unknown
+  total: number
+  // Smoothed throughput in bytes per second
+  bytesPerSecond: number
+  // Estimated time remaining in ms, or null when unknown
+  etaMs: number | null
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void
+
+// Minimum time between callbacks, so UIs aren't flooded with updates
+const REPORT_INTERVAL_MS = 100
+// Weight given to the newest throughput sample
+const THROUGHPUT_ALPHA = 0.2
+
+/**
+ * Create a reporter that turns byte counts into throttled progress
+ * callbacks. The returned function takes the total bytes processed so far;
+ * the first and final (loaded >= total) updates are always delivered.
+ */
+export function createProgressReporter(
+  total: number,
+  onProgress?: ProgressCallback
+): (loaded: number) => void {
+  if (!onProgress) return () => {}
+
+  const startedAt = Date.now()
+  let lastReportAt = 0
+  let lastSampleAt = startedAt
+  let lastSampleLoaded = 0
+  let bytesPerSecond = 0
+
+  return (loaded: number) => {
+    const now = Date.now()
+    const done = total > 0 && loaded >= total
+
+    if (!done && lastReportAt !== 0 && now - lastReportAt < REPORT_INTERVAL_MS) return
+
+    const elapsed = now - lastSampleAt
+    if (elapsed > 0) {
+      const sample = ((loaded - lastSampleLoaded) * 1000) / elapsed
+      bytesPerSecond =
+        bytesPerSecond === 0 ? sample : bytesPerSecond + THROUGHPUT_ALPHA * (sample - bytesPerSecond)
+      lastSampleAt = now
+      lastSampleLoaded = loaded
+    }
+    lastReportAt = now
+
+    onProgress({
+      loaded,
+      total,
+      bytesPerSecond,
+      etaMs:
+        total > 0 && bytesPerSecond > 0 ? ((total - Math.min(loaded, total)) * 1000) / bytesPerSecond : null,
+    })
+  }
+}
+
+/**
+ * Format an ETA in ms as a short human-readable string
+ */
+export function formatEta(etaMs: number | null): string {
+  if (etaMs === null || !Number.isFinite(etaMs)) return "--"
+  const seconds = Math.ceil(etaMs / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
@@ -0,0 +1,126 @@
+/**
+ * Seal Network Client
+ * Encrypts envelope data keys with the Seal SDK to an identity under an
+ * on-chain SealPolicy (contracts/sources/seal_policy.move): the policy
+ * object's ID followed by the client-side policy ID. Decryption fetches key
+ * shares from the key servers with a session key signed by the connected
+ * wallet; each server dry-runs `seal_approve` before releasing its share.
+ *
+ * Key servers are set with NEXT_PUBLIC_SEAL_KEY_SERVERS (comma-separated
+ * object IDs, optionally `id:weight`). For development, run the local
+ * stand-in (scripts/local-key-server.mjs) and set
+ * NEXT_PUBLIC_SEAL_VERIFY_KEY_SERVERS=false.
+ */
+
+import { SealClient, SessionKey, type KeyServerConfig } from "@mysten/seal"
+import { fromHex, normalizeSuiObjectId, toHex } from "@mysten/sui/utils"
+import { PACKAGE_ID, buildSealApproveTxBytes, createSuiClient, requirePackageFeature } from "./sui"
+
+// Session keys can live at most 30 minutes
+const SESSION_TTL_MIN = 10
+
+function parseKeyServers(value: string | undefined): KeyServerConfig[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [objectId, weight] = entry.split(":")
+      return { objectId: normalizeSuiObjectId(objectId), weight: weight ? Number(weight) : 1 }
+    })
+}
+
+const KEY_SERVERS = parseKeyServers(process.env.NEXT_PUBLIC_SEAL_KEY_SERVERS)
+const THRESHOLD = Number(process.env.NEXT_PUBLIC_SEAL_THRESHOLD) || Math.min(2, KEY_SERVERS.length)
+const VERIFY_KEY_SERVERS = process.env.NEXT_PUBLIC_SEAL_VERIFY_KEY_SERVERS !== "false"
+
+let sealClient: SealClient | null = null
+
+/**
+ * Whether Seal key servers are configured; without them envelopes fall back
+ * to wrapping keys to recipients' X25519 keys
+ */
+export function isSealConfigured(): boolean {
+  return KEY_SERVERS.length > 0
+}
+
+function getSealClient(): SealClient {
+  if (!isSealConfigured()) {
+    throw new Error("NEXT_PUBLIC_SEAL_KEY_SERVERS is not configured")
+  }
+  sealClient ??= new SealClient({
+    suiClient: createSuiClient(),
+    serverConfigs: KEY_SERVERS,
+    verifyKeyServers: VERIFY_KEY_SERVERS,
+  })
+  return sealClient
+}
+
+/**
+ * Seal identity of a policy's data: the policy object ID's bytes followed by
+ * the client-side policy ID, hex
+ */
+export function sealIdentity(policyObjectId: string, policyId: string): string {
+  return toHex(fromHex(normalizeSuiObjectId(policyObjectId))) + policyId.toLowerCase()
+}
+
+/**
+ * Encrypt a raw data key under a policy's identity. Returns the BCS
+ * EncryptedObject bytes stored in the envelope.
+ */
+export async function sealEncryptKey(
+  rawKey: Uint8Array,
+  policyObjectId: string,
+  policyId: string
+): Promise<Uint8Array> {
+  const { encryptedObject } = await getSealClient().encrypt({
+    threshold: THRESHOLD,
+    packageId: PACKAGE_ID,
+    id: sealIdentity(policyObjectId, policyId),
+    data: rawKey,
+  })
+  return encryptedObject
+}
+
+/**
+ * Start a session key for `address`; the wallet signs its personal message
+ * once and it then authorizes key requests until it expires
+ */
+export async function createSessionKey(
+  address: string,
+  signPersonalMessage: (message: Uint8Array) => Promise<string>
+): Promise<SessionKey> {
+  const sessionKey = await SessionKey.create({
+    address,
+    packageId: PACKAGE_ID,
+    ttlMin: SESSION_TTL_MIN,
+    suiClient: createSuiClient(),
+  })
+  await sessionKey.setPersonalMessageSignature(await signPersonalMessage(sessionKey.getPersonalMessage()))
+  return sessionKey
+}
+
+/**
+ * Fetch key shares for a policy's identity and decrypt the data key. The
+ * key servers refuse unless `seal_approve` passes for the session's owner.
+ */
+export async function sealDecryptKey(
+  encryptedKey: Uint8Array,
+  policyObjectId: string,
+  policyId: string,
+  sessionKey: SessionKey
+): Promise<Uint8Array> {
+  if (sessionKey.isExpired()) {
+    throw new Error("The Seal session has expired; sign in again to decrypt")
+  }
+
+  const client = createSuiClient()
+  await requirePackageFeature("sealPolicy", client)
+  const txBytes = await buildSealApproveTxBytes(
+    client,
+    policyObjectId,
+    sealIdentity(policyObjectId, policyId)
+  )
+  return getSealClient().decrypt({ data: encryptedKey, sessionKey, txBytes })
+}
@@ -3,8 +3,34 @@
  * Handles encryption with policy-based access control
  */
 
-// Note: This uses the @mysten/seal SDK when available
-// For now, we implement a compatible interface
+// Data keys are encrypted with the @mysten/seal SDK when the policy has an
+// on-chain object and key servers are configured (see seal-client.ts), and
+// otherwise wrapped to recipients' X25519 keys (see key-encapsulation.ts).
+// Threshold policies also split it among their key holders (see threshold.ts).
+// The data itself is encrypted in segments (see stream-aead.ts), so envelopes
+// can be decrypted as they download, with a digest of the header as
+// associated data, so the header can't be changed without detection.
+
+import type { SessionKey } from "@mysten/seal"
+import { createProgressReporter, type ProgressCallback } from "./progress"
+import { decapsulateKey, encapsulateKey, type EncryptionKeyPair, type WrappedKey } from "./key-encapsulation"
+import { isSealConfigured, sealDecryptKey, sealEncryptKey } from "./seal-client"
+import {
+  DEFAULT_SEGMENT_SIZE,
+  collectStream,
+  createDecryptionStream,
+  createEncryptionStream,
+  encryptedSize,
+  generateNoncePrefix,
+} from "./stream-aead"
+import { reconstructDataKey, splitDataKey, type ShareApproval, type ThresholdShares } from "./threshold"
+
+// v1 envelopes stored the raw data key; v2 wraps it to each recipient; v3
+// encrypts the data in segments rather than in one AES-GCM call; v4 also
+// authenticates the header
+const ENVELOPE_VERSION = 4
+const SINGLE_SHOT_VERSION = 2
+const UNBOUND_HEADER_VERSION = 3
 
 export interface SealPolicy {
   id: string
@@ -15,25 +41,53 @@ export interface SealPolicy {
   threshold?: {
     required: number
     total: number
+    // Key holders' X25519 public keys, hex; each gets one share of the data key
     keyHolders: string[]
   }
   allowlist?: string[]
   expiresAt: number
   createdAt: number
+  // Shared SealPolicy object enforcing this policy on-chain, once created
+  objectId?: string
 }
 
 export interface EncryptedEnvelope {
   ciphertext: Uint8Array
+  // Segment nonce prefix, or the AES-GCM nonce of a v1/v2 envelope
   nonce: Uint8Array
   policyId: string
-  encryptedKey: Uint8Array
+  // Ephemeral X25519 public key the recipients' wrapping keys derive from
+  ephemeralPublicKey: Uint8Array
+  // Data key wrapped to each recipient (see key-encapsulation.ts)
+  recipients: WrappedKey[]
+  // Data key encrypted with Seal to the policy object's identity
+  sealKey?: Uint8Array
+  policyObjectId?: string
+  // Shares of the data key wrapped to a threshold policy's key holders
+  threshold?: ThresholdShares
+  // Raw data key of a v1 envelope, which anyone with the blob can read
+  legacyKey?: Uint8Array
   metadata: {
     originalSize: number
     algorithm: string
     version: number
+    // Plaintext bytes per segment, for v3 envelopes
+    segmentSize?: number
   }
 }
 
+// Everything but the ciphertext, as read from the start of an envelope stream
+export type EnvelopeHeader = Omit<EncryptedEnvelope, "ciphertext">
+
+export interface DecryptionKeys {
+  // Session key for the Seal key servers, for envelopes with a Seal key
+  sessionKey?: SessionKey
+  // Recipient key pair, for envelopes with wrapped keys
+  keyPair?: EncryptionKeyPair
+  // Key holders' approvals wrapped to `keyPair`, for threshold envelopes
+  approvals?: ShareApproval[]
+}
+
 export interface DecryptRequest {
   envelope: EncryptedEnvelope
   requesterAddress: string
@@ -52,28 +106,28 @@ async function generateEncryptionKey(): Promise<CryptoKey> {
 }
 
 /**
- * Encrypt data with a random key
+ * Read data as a stream without copying it
  */
-async function encryptData(
-  data: Uint8Array,
-  key: CryptoKey
-): Promise<{ ciphertext: Uint8Array; nonce: Uint8Array }> {
-  const nonce = crypto.getRandomValues(new Uint8Array(12))
-
-  // Create a new ArrayBuffer to avoid SharedArrayBuffer type issues
-  const buffer = new ArrayBuffer(data.length)
-  new Uint8Array(buffer).set(data)
+function toStream(data: Blob | Uint8Array): ReadableStream<Uint8Array> {
+  if (data instanceof Blob) return data.stream()
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(data)
+      controller.close()
+    },
+  })
+}
 
-  const ciphertext = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv: nonce },
+/**
+ * Decrypt the ciphertext of a v1 or v2 envelope, encrypted in one AES-GCM call
+ */
+async function decryptSingleShot(key: CryptoKey, nonce: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: new Uint8Array(nonce) },
     key,
-    buffer
+    new Uint8Array(ciphertext)
   )
-
-  return {
-    ciphertext: new Uint8Array(ciphertext),
-    nonce,
-  }
+  return new Uint8Array(plaintext)
 }
 
 /**
@@ -114,49 +168,143 @@ function generatePolicyId(): string {
 }
 
 /**
- * Encrypt file with Seal policy
+ * Generate an envelope's data key and build its header: the data key is
+ * encrypted with Seal when the policy has an on-chain object, wrapped to the
+ * recipients' X25519 public keys (hex) if any are given, and split among
+ * the key holders of a threshold policy
  */
-export async function encryptWithSeal(
-  data: Uint8Array,
-  policy: SealPolicy
-): Promise<EncryptedEnvelope> {
+async function createEnvelopeHeader(
+  size: number,
+  policy: SealPolicy,
+  recipients: string[]
+): Promise<{ key: CryptoKey; header: EnvelopeHeader }> {
   // Generate a random encryption key
   const key = await generateEncryptionKey()
 
-  // Export the key for wrapping
-  const rawKey = await crypto.subtle.exportKey("raw", key)
-
-  // Encrypt the data
-  const { ciphertext, nonce } = await encryptData(data, key)
-
-  // In production, the key would be encrypted to the Seal network
-  // For now, we simulate this with a wrapped key
-  const encryptedKey = new Uint8Array(rawKey)
+  const useSeal = Boolean(policy.objectId) && isSealConfigured()
+  if (!useSeal && recipients.length === 0 && !policy.threshold) {
+    throw new Error("An envelope needs a Seal policy object, a recipient or key holders")
+  }
 
-  return {
-    ciphertext,
-    nonce,
+  // Protect it first, so a bad recipient key fails before the encryption pass
+  const sealKey = useSeal
+    ? await sealEncryptKey(new Uint8Array(await crypto.subtle.exportKey("raw", key)), policy.objectId!, policy.id)
+    : undefined
+  const wrapped =
+    recipients.length > 0
+      ? await encapsulateKey(key, recipients, policy.id)
+      : { ephemeralPublicKey: new Uint8Array(0), recipients: [] }
+  const threshold = policy.threshold ? await splitDataKey(key, policy.threshold, policy.id) : undefined
+
+  const header: EnvelopeHeader = {
+    nonce: generateNoncePrefix(),
     policyId: policy.id,
-    encryptedKey,
+    ephemeralPublicKey: wrapped.ephemeralPublicKey,
+    recipients: wrapped.recipients,
+    sealKey,
+    policyObjectId: useSeal ? policy.objectId : undefined,
+    threshold,
     metadata: {
-      originalSize: data.length,
-      algorithm: "AES-256-GCM",
-      version: 1,
+      originalSize: size,
+      algorithm: "AES-256-GCM-STREAM",
+      version: ENVELOPE_VERSION,
+      segmentSize: DEFAULT_SEGMENT_SIZE,
     },
   }
+
+  return { key, header }
 }
 
 /**
- * Decrypt data with Seal (requires policy check)
+ * Encrypt the data segment by segment, bound to the header, writing the
+ * ciphertext into `target` (sized with encryptedSize)
  */
-export async function decryptWithSeal(
-  envelope: EncryptedEnvelope,
+async function encryptInto(
+  data: Blob | Uint8Array,
+  key: CryptoKey,
+  header: EnvelopeHeader,
+  target: Uint8Array,
+  onProgress?: ProgressCallback
+): Promise<void> {
+  const size = header.metadata.originalSize
+  const report = createProgressReporter(size, onProgress)
+  report(0)
+
+  let loaded = 0
+  const plaintext = toStream(data).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.length
+        report(loaded)
+        controller.enqueue(chunk)
+      },
+    })
+  )
+  await collectStream(
+    plaintext.pipeThrough(createEncryptionStream(key, header.nonce, DEFAULT_SEGMENT_SIZE, await headerDigest(header))),
+    target
+  )
+  report(size)
+}
+
+/**
+ * Encrypt file with Seal policy; see createEnvelopeHeader for how the data
+ * key is protected. A Blob (such as a File) is read as a stream, so only
+ * the ciphertext is held in memory; `onProgress` reports plaintext bytes
+ * as they're encrypted.
+ */
+export async function encryptWithSeal(
+  data: Blob | Uint8Array,
   policy: SealPolicy,
-  requesterAddress: string
+  recipients: string[],
+  onProgress?: ProgressCallback
+): Promise<EncryptedEnvelope> {
+  const size = data instanceof Blob ? data.size : data.length
+  const { key, header } = await createEnvelopeHeader(size, policy, recipients)
+
+  const ciphertext = new Uint8Array(encryptedSize(size, DEFAULT_SEGMENT_SIZE))
+  await encryptInto(data, key, header, ciphertext, onProgress)
+  return { ...header, ciphertext }
+}
+
+/**
+ * Encrypt straight into the serialized envelope (see serializeEnvelope),
+ * for large files: the envelope is allocated once at its final size and
+ * the ciphertext written into place, rather than copied in afterwards
+ */
+export async function encryptAndSerializeWithSeal(
+  data: Blob | Uint8Array,
+  policy: SealPolicy,
+  recipients: string[],
+  onProgress?: ProgressCallback
 ): Promise<Uint8Array> {
+  const size = data instanceof Blob ? data.size : data.length
+  const { key, header } = await createEnvelopeHeader(size, policy, recipients)
+
+  const { bytes, ciphertextOffset } = allocateEnvelope(header, encryptedSize(size, DEFAULT_SEGMENT_SIZE))
+  await encryptInto(data, key, header, bytes.subarray(ciphertextOffset), onProgress)
+  return bytes
+}
+
+/**
+ * Check the policy and recover an envelope's data key. A Seal key is
+ * fetched with `keys.sessionKey`; otherwise the data key is unwrapped with
+ * the requester's `keys.keyPair`, derived from their wallet signature, or
+ * reconstructed from key holders' `keys.approvals` wrapped to it.
+ */
+async function resolveDataKey(
+  envelope: EnvelopeHeader,
+  policy: SealPolicy,
+  requesterAddress: string,
+  keys: DecryptionKeys
+): Promise<CryptoKey> {
   // Verify policy constraints
   const now = Date.now()
 
+  if (envelope.policyId !== policy.id) {
+    throw new Error("The envelope was encrypted under a different policy")
+  }
+
   if (now > policy.expiresAt) {
     throw new Error("Policy has expired")
   }
@@ -165,78 +313,281 @@ export async function decryptWithSeal(
     throw new Error("Address not in allowlist")
   }
 
-  // Create proper ArrayBuffers to avoid SharedArrayBuffer type issues
-  const keyBuffer = new ArrayBuffer(envelope.encryptedKey.length)
-  new Uint8Array(keyBuffer).set(envelope.encryptedKey)
+  let key: CryptoKey
+  if (envelope.legacyKey) {
+    console.warn("Decrypting a v1 envelope, whose key is stored in the clear")
+    // Create proper ArrayBuffers to avoid SharedArrayBuffer type issues
+    const keyBuffer = new ArrayBuffer(envelope.legacyKey.length)
+    new Uint8Array(keyBuffer).set(envelope.legacyKey)
+    key = await crypto.subtle.importKey("raw", keyBuffer, { name: "AES-GCM", length: 256 }, false, ["decrypt"])
+  } else if (envelope.sealKey && envelope.policyObjectId && keys.sessionKey) {
+    const rawKey = await sealDecryptKey(envelope.sealKey, envelope.policyObjectId, envelope.policyId, keys.sessionKey)
+    key = await crypto.subtle.importKey("raw", new Uint8Array(rawKey), { name: "AES-GCM", length: 256 }, false, [
+      "decrypt",
+    ])
+  } else if (keys.keyPair && envelope.threshold && keys.approvals?.length) {
+    key = await reconstructDataKey(envelope, keys.approvals, keys.keyPair)
+  } else if (keys.keyPair && envelope.recipients.length > 0) {
+    key = await decapsulateKey(envelope, keys.keyPair)
+  } else {
+    throw new Error(
+      envelope.sealKey
+        ? "Sign in to the Seal key servers to decrypt"
+        : envelope.threshold
+          ? "Decrypting needs approvals from the key holders"
+          : "No encryption key pair to decrypt with"
+    )
+  }
 
-  // Import the decryption key
-  const key = await crypto.subtle.importKey(
-    "raw",
-    keyBuffer,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["decrypt"]
-  )
+  return key
+}
 
-  // Create ArrayBuffer for ciphertext
-  const ciphertextBuffer = new ArrayBuffer(envelope.ciphertext.length)
-  new Uint8Array(ciphertextBuffer).set(envelope.ciphertext)
+/**
+ * Decryption stream for the ciphertext of a segmented (v3 or later) envelope
+ */
+async function envelopeDecryptionStream(
+  key: CryptoKey,
+  header: EnvelopeHeader
+): Promise<TransformStream<Uint8Array, Uint8Array>> {
+  if (header.metadata.version === UNBOUND_HEADER_VERSION) {
+    console.warn("Decrypting a v3 envelope, whose header isn't authenticated")
+    return createDecryptionStream(key, header.nonce, header.metadata.segmentSize)
+  }
+  return createDecryptionStream(key, header.nonce, header.metadata.segmentSize, await headerDigest(header))
+}
 
-  // Create ArrayBuffer for nonce
-  const nonceBuffer = new ArrayBuffer(envelope.nonce.length)
-  new Uint8Array(nonceBuffer).set(envelope.nonce)
+/**
+ * Decrypt data with Seal (requires policy check); see resolveDataKey for
+ * how the data key is recovered
+ */
+export async function decryptWithSeal(
+  envelope: EncryptedEnvelope,
+  policy: SealPolicy,
+  requesterAddress: string,
+  keys: DecryptionKeys
+): Promise<Uint8Array> {
+  const key = await resolveDataKey(envelope, policy, requesterAddress, keys)
 
-  // Decrypt the data
-  const plaintext = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv: nonceBuffer },
-    key,
-    ciphertextBuffer
+  if (envelope.metadata.version <= SINGLE_SHOT_VERSION) {
+    return decryptSingleShot(key, envelope.nonce, envelope.ciphertext)
+  }
+  // The header's size is only trusted to presize the output when it agrees
+  // with the ciphertext; otherwise decryption reports what's wrong
+  const { originalSize, segmentSize } = envelope.metadata
+  const consistent = envelope.ciphertext.length === encryptedSize(originalSize, segmentSize)
+  return collectStream(
+    toStream(envelope.ciphertext).pipeThrough(await envelopeDecryptionStream(key, envelope)),
+    consistent ? new Uint8Array(originalSize) : undefined
   )
+}
 
-  return new Uint8Array(plaintext)
+/**
+ * Decrypt an envelope's ciphertext as it arrives (see openEnvelopeStream).
+ * The returned stream errors if the header or data was altered or the data
+ * truncated, so consumers must not trust bytes written before the stream
+ * closes. Older single-shot envelopes can only be authenticated once all
+ * of their ciphertext has arrived, so they're read into one buffer, then
+ * decrypted and streamed.
+ */
+export async function decryptStreamWithSeal(
+  header: EnvelopeHeader,
+  ciphertext: ReadableStream<Uint8Array>,
+  policy: SealPolicy,
+  requesterAddress: string,
+  keys: DecryptionKeys
+): Promise<ReadableStream<Uint8Array>> {
+  const key = await resolveDataKey(header, policy, requesterAddress, keys)
+
+  if (header.metadata.version <= SINGLE_SHOT_VERSION) {
+    // Not presized: the header's size can't be checked before the data arrives
+    const whole = await collectStream(ciphertext)
+    return toStream(await decryptSingleShot(key, header.nonce, whole))
+  }
+  return ciphertext.pipeThrough(await envelopeDecryptionStream(key, header))
 }
 
 /**
- * Serialize envelope for storage
+ * Encode an envelope's header as stored. Parsing and re-encoding a header
+ * gives the same bytes, so its digest can be recomputed when decrypting.
  */
-export function serializeEnvelope(envelope: EncryptedEnvelope): Uint8Array {
+function encodeHeader(envelope: EnvelopeHeader): Uint8Array {
   const json = JSON.stringify({
     policyId: envelope.policyId,
     nonce: Array.from(envelope.nonce),
-    encryptedKey: Array.from(envelope.encryptedKey),
+    ephemeralPublicKey: Array.from(envelope.ephemeralPublicKey),
+    recipients: envelope.recipients.map((recipient) => ({
+      publicKey: recipient.publicKey,
+      wrappedKey: Array.from(recipient.wrappedKey),
+    })),
+    sealKey: envelope.sealKey ? Array.from(envelope.sealKey) : undefined,
+    policyObjectId: envelope.policyObjectId,
+    threshold: envelope.threshold
+      ? {
+          required: envelope.threshold.required,
+          ephemeralPublicKey: Array.from(envelope.threshold.ephemeralPublicKey),
+          shares: envelope.threshold.shares.map((share) => ({
+            index: share.index,
+            publicKey: share.publicKey,
+            wrappedKey: Array.from(share.wrappedKey),
+          })),
+          shareDigests: envelope.threshold.shareDigests,
+        }
+      : undefined,
     metadata: envelope.metadata,
   })
 
-  const header = new TextEncoder().encode(json)
-  const headerLength = new Uint32Array([header.length])
+  return new TextEncoder().encode(json)
+}
 
-  // Format: [4 bytes header length][header JSON][ciphertext]
-  const result = new Uint8Array(4 + header.length + envelope.ciphertext.length)
-  result.set(new Uint8Array(headerLength.buffer), 0)
-  result.set(header, 4)
-  result.set(envelope.ciphertext, 4 + header.length)
+/**
+ * SHA-256 of the encoded header, the associated data every segment is
+ * encrypted with
+ */
+async function headerDigest(envelope: EnvelopeHeader): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new Uint8Array(encodeHeader(envelope))))
+}
 
-  return result
+/**
+ * Allocate a serialized envelope and write its header, leaving room for
+ * `ciphertextLength` bytes of ciphertext at `ciphertextOffset`
+ */
+function allocateEnvelope(
+  envelope: EnvelopeHeader,
+  ciphertextLength: number
+): { bytes: Uint8Array; ciphertextOffset: number } {
+  const header = encodeHeader(envelope)
+
+  // Format: [4 bytes header length, LE][header JSON][ciphertext]
+  const bytes = new Uint8Array(4 + header.length + ciphertextLength)
+  new DataView(bytes.buffer).setUint32(0, header.length, true)
+  bytes.set(header, 4)
+
+  return { bytes, ciphertextOffset: 4 + header.length }
 }
 
 /**
- * Deserialize envelope from storage
+ * Serialize envelope for storage
  */
-export function deserializeEnvelope(data: Uint8Array): EncryptedEnvelope {
-  const headerLength = new Uint32Array(data.buffer.slice(0, 4))[0]
-  const headerBytes = data.slice(4, 4 + headerLength)
+export function serializeEnvelope(envelope: EncryptedEnvelope): Uint8Array {
+  const { bytes, ciphertextOffset } = allocateEnvelope(envelope, envelope.ciphertext.length)
+  bytes.set(envelope.ciphertext, ciphertextOffset)
+  return bytes
+}
+
+/**
+ * Parse an envelope's JSON header
+ */
+function parseEnvelopeHeader(headerBytes: Uint8Array): EnvelopeHeader {
   const header = JSON.parse(new TextDecoder().decode(headerBytes))
-  const ciphertext = data.slice(4 + headerLength)
+
+  const originalSize = header.metadata?.originalSize
+  if (!Number.isSafeInteger(originalSize) || originalSize < 0) {
+    throw new Error(`Invalid envelope size: ${originalSize}`)
+  }
+  const segmentSize = header.metadata.segmentSize
+  if (segmentSize !== undefined && (!Number.isSafeInteger(segmentSize) || segmentSize < 1)) {
+    throw new Error(`Invalid envelope segment size: ${segmentSize}`)
+  }
+
+  if (header.metadata?.version === 1) {
+    return {
+      policyId: header.policyId,
+      nonce: new Uint8Array(header.nonce),
+      ephemeralPublicKey: new Uint8Array(0),
+      recipients: [],
+      legacyKey: new Uint8Array(header.encryptedKey),
+      metadata: header.metadata,
+    }
+  }
+  if (![SINGLE_SHOT_VERSION, UNBOUND_HEADER_VERSION, ENVELOPE_VERSION].includes(header.metadata?.version)) {
+    throw new Error(`Unsupported envelope version: ${header.metadata?.version}`)
+  }
 
   return {
     policyId: header.policyId,
     nonce: new Uint8Array(header.nonce),
-    encryptedKey: new Uint8Array(header.encryptedKey),
+    ephemeralPublicKey: new Uint8Array(header.ephemeralPublicKey),
+    recipients: header.recipients.map((recipient: { publicKey: string; wrappedKey: number[] }) => ({
+      publicKey: recipient.publicKey,
+      wrappedKey: new Uint8Array(recipient.wrappedKey),
+    })),
+    sealKey: header.sealKey ? new Uint8Array(header.sealKey) : undefined,
+    policyObjectId: header.policyObjectId,
+    threshold: header.threshold
+      ? {
+          required: header.threshold.required,
+          ephemeralPublicKey: new Uint8Array(header.threshold.ephemeralPublicKey),
+          shares: header.threshold.shares.map((share: { index: number; publicKey: string; wrappedKey: number[] }) => ({
+            index: share.index,
+            publicKey: share.publicKey,
+            wrappedKey: new Uint8Array(share.wrappedKey),
+          })),
+          shareDigests: header.threshold.shareDigests,
+        }
+      : undefined,
     metadata: header.metadata,
-    ciphertext,
   }
 }
 
+/**
+ * Deserialize envelope from storage
+ */
+export function deserializeEnvelope(data: Uint8Array): EncryptedEnvelope {
+  const headerLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true)
+  const headerBytes = data.subarray(4, 4 + headerLength)
+  // A view, so the ciphertext isn't copied
+  const ciphertext = data.subarray(4 + headerLength)
+
+  return { ...parseEnvelopeHeader(headerBytes), ciphertext }
+}
+
+/**
+ * Read an envelope's header from the start of a stream, returning the
+ * header and the rest of the stream, which is the ciphertext
+ */
+export async function openEnvelopeStream(
+  stream: ReadableStream<Uint8Array>
+): Promise<{ header: EnvelopeHeader; ciphertext: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader()
+  let buffered = new Uint8Array(0)
+
+  const readAtLeast = async (length: number) => {
+    while (buffered.length < length) {
+      const { done, value } = await reader.read()
+      if (done) {
+        throw new Error("The envelope ended before its header")
+      }
+      const next = new Uint8Array(buffered.length + value.length)
+      next.set(buffered)
+      next.set(value, buffered.length)
+      buffered = next
+    }
+  }
+
+  // Format: [4 bytes header length][header JSON][ciphertext]
+  await readAtLeast(4)
+  const headerLength = new DataView(buffered.buffer).getUint32(0, true)
+  await readAtLeast(4 + headerLength)
+  const header = parseEnvelopeHeader(buffered.subarray(4, 4 + headerLength))
+  const rest = buffered.slice(4 + headerLength)
+
+  const ciphertext = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (rest.length > 0) controller.enqueue(rest)
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  return { header, ciphertext }
+}
+
 /**
  * Verify consent signature
  */
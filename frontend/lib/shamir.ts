@@ -0,0 +1,104 @@
+/**
+ * Shamir Secret Sharing
+ * Splits a secret byte-wise over GF(2^8) so that any `threshold` of the
+ * shares reconstruct it and fewer reveal nothing. Share indices are the
+ * polynomials' x-coordinates, 1 to 255.
+ */
+
+export interface SecretShare {
+  // x-coordinate, 1-based
+  index: number
+  // One polynomial evaluation per secret byte
+  share: Uint8Array
+}
+
+// Log and exp tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x
+  EXP[i + 255] = x
+  LOG[x] = i
+  // Multiply by the generator 3
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0)
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error("Division by zero in GF(256)")
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]
+}
+
+/**
+ * Split `secret` into `total` shares, any `threshold` of which recover it
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, total: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(total) || threshold < 1 || threshold > total) {
+    throw new Error(`Invalid threshold ${threshold} of ${total}`)
+  }
+  if (total > 255) {
+    throw new Error("At most 255 shares are supported")
+  }
+
+  // coefficients[j] holds the degree-j coefficient for every byte; the constant term is the secret
+  const coefficients = [secret]
+  for (let j = 1; j < threshold; j++) {
+    coefficients.push(crypto.getRandomValues(new Uint8Array(secret.length)))
+  }
+
+  return Array.from({ length: total }, (_, i) => {
+    const x = i + 1
+    const share = new Uint8Array(secret.length)
+    for (let b = 0; b < secret.length; b++) {
+      // Horner's rule, highest degree first
+      let y = 0
+      for (let j = coefficients.length - 1; j >= 0; j--) {
+        y = mul(y, x) ^ coefficients[j][b]
+      }
+      share[b] = y
+    }
+    return { index: x, share }
+  })
+}
+
+/**
+ * Recover the secret from at least `threshold` distinct shares. Fewer
+ * shares yield an unrelated value rather than an error, so callers must
+ * check the count.
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error("No shares to combine")
+  }
+  const length = shares[0].share.length
+  const indices = new Set<number>()
+  for (const { index, share } of shares) {
+    if (!Number.isInteger(index) || index < 1 || index > 255) {
+      throw new Error(`Invalid share index ${index}`)
+    }
+    if (indices.has(index)) {
+      throw new Error(`Duplicate share index ${index}`)
+    }
+    if (share.length !== length) {
+      throw new Error("Shares have different lengths")
+    }
+    indices.add(index)
+  }
+
+  // Lagrange interpolation at x = 0
+  const secret = new Uint8Array(length)
+  for (const { index: xi, share } of shares) {
+    let basis = 1
+    for (const { index: xj } of shares) {
+      if (xj !== xi) basis = mul(basis, div(xj, xj ^ xi))
+    }
+    for (let b = 0; b < length; b++) {
+      secret[b] ^= mul(share[b], basis)
+    }
+  }
+  return secret
+}
@@ -0,0 +1,219 @@
+/**
+ * Streaming AEAD
+ * Segmented AES-256-GCM in the style of the STREAM construction (Hoang,
+ * Reyhanitabar, Rogaway and Vizár): plaintext is cut into fixed-size
+ * segments, each sealed under the nonce
+ *
+ *   noncePrefix (7 bytes) || segment counter (u32, big-endian) || last flag (1 byte)
+ *
+ * so segments can't be reordered, and the final segment is sealed with the
+ * last flag set, so truncating or extending the stream fails authentication.
+ * Optional associated data (such as a header) is authenticated with every
+ * segment.
+ * Encryption and decryption are TransformStreams that hold at most two
+ * segments, so file size isn't limited by memory.
+ */
+
+export const NONCE_PREFIX_LENGTH = 7
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024
+// AES-GCM tag appended to every segment
+export const SEGMENT_TAG_LENGTH = 16
+
+// Bounds the buffers a stream allocates, since segment sizes come from envelope headers
+export const MAX_SEGMENT_SIZE = 16 * 1024 * 1024
+
+const MAX_SEGMENTS = 2 ** 32
+
+function segmentNonce(prefix: Uint8Array, counter: number, last: boolean): Uint8Array<ArrayBuffer> {
+  if (counter >= MAX_SEGMENTS) {
+    throw new Error("Too many segments for one stream")
+  }
+  const nonce = new Uint8Array(12)
+  nonce.set(prefix)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, counter)
+  nonce[11] = last ? 1 : 0
+  return nonce
+}
+
+function checkParameters(noncePrefix: Uint8Array, segmentSize: number): void {
+  if (noncePrefix.length !== NONCE_PREFIX_LENGTH) {
+    throw new Error(`Nonce prefix must be ${NONCE_PREFIX_LENGTH} bytes`)
+  }
+  if (!Number.isInteger(segmentSize) || segmentSize < 1 || segmentSize > MAX_SEGMENT_SIZE) {
+    throw new Error(`Invalid segment size: ${segmentSize}`)
+  }
+}
+
+/**
+ * Generate a random nonce prefix for a new stream
+ */
+export function generateNoncePrefix(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH))
+}
+
+/**
+ * Ciphertext size of `plaintextSize` bytes: every segment carries a tag, and
+ * an empty plaintext is still sealed as one empty final segment
+ */
+export function encryptedSize(plaintextSize: number, segmentSize: number = DEFAULT_SEGMENT_SIZE): number {
+  const segments = Math.max(1, Math.ceil(plaintextSize / segmentSize))
+  return plaintextSize + segments * SEGMENT_TAG_LENGTH
+}
+
+/**
+ * Cut a byte stream into `size`-byte segments, holding the latest one back
+ * until it's known whether more follow, so the final segment can be
+ * flagged. The final segment may be shorter, or empty.
+ */
+function segmentTransform(
+  size: number,
+  process: (segment: Uint8Array<ArrayBuffer>, counter: number, last: boolean) => Promise<Uint8Array>
+): TransformStream<Uint8Array, Uint8Array> {
+  let buffer = new Uint8Array(size)
+  let filled = 0
+  let pending: Uint8Array<ArrayBuffer> | null = null
+  let counter = 0
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      let offset = 0
+      while (offset < chunk.length) {
+        if (filled === size) {
+          // A full segment with more data after it can't be the last
+          if (pending) controller.enqueue(await process(pending, counter++, false))
+          pending = buffer
+          buffer = new Uint8Array(size)
+          filled = 0
+        }
+        const take = Math.min(size - filled, chunk.length - offset)
+        buffer.set(chunk.subarray(offset, offset + take), filled)
+        filled += take
+        offset += take
+      }
+    },
+    async flush(controller) {
+      if (filled === size) {
+        if (pending) controller.enqueue(await process(pending, counter++, false))
+        pending = buffer
+        filled = 0
+      }
+      // A partial (or empty) tail is the last segment; otherwise the held one is
+      if (filled > 0 || !pending) {
+        if (pending) controller.enqueue(await process(pending, counter++, false))
+        controller.enqueue(await process(buffer.slice(0, filled), counter++, true))
+      } else {
+        controller.enqueue(await process(pending, counter++, true))
+      }
+    },
+  })
+}
+
+function segmentParams(
+  noncePrefix: Uint8Array,
+  counter: number,
+  last: boolean,
+  associatedData?: Uint8Array<ArrayBuffer>
+): AesGcmParams {
+  const iv = segmentNonce(noncePrefix, counter, last)
+  return associatedData ? { name: "AES-GCM", iv, additionalData: associatedData } : { name: "AES-GCM", iv }
+}
+
+/**
+ * Encrypt a plaintext stream into `segmentSize`-byte segments, each followed
+ * by its tag
+ */
+export function createEncryptionStream(
+  key: CryptoKey,
+  noncePrefix: Uint8Array,
+  segmentSize: number = DEFAULT_SEGMENT_SIZE,
+  associatedData?: Uint8Array
+): TransformStream<Uint8Array, Uint8Array> {
+  checkParameters(noncePrefix, segmentSize)
+  const additionalData = associatedData && new Uint8Array(associatedData)
+
+  return segmentTransform(segmentSize, async (segment, counter, last) => {
+    const ciphertext = await crypto.subtle.encrypt(
+      segmentParams(noncePrefix, counter, last, additionalData),
+      key,
+      segment
+    )
+    return new Uint8Array(ciphertext)
+  })
+}
+
+/**
+ * Decrypt a stream produced by createEncryptionStream with the same
+ * associated data. Errors if a segment or the associated data was altered,
+ * segments were reordered or dropped, or the stream was truncated.
+ */
+export function createDecryptionStream(
+  key: CryptoKey,
+  noncePrefix: Uint8Array,
+  segmentSize: number = DEFAULT_SEGMENT_SIZE,
+  associatedData?: Uint8Array
+): TransformStream<Uint8Array, Uint8Array> {
+  checkParameters(noncePrefix, segmentSize)
+  const additionalData = associatedData && new Uint8Array(associatedData)
+
+  const decrypt = async (segment: Uint8Array<ArrayBuffer>, counter: number, last: boolean) =>
+    new Uint8Array(
+      await crypto.subtle.decrypt(segmentParams(noncePrefix, counter, last, additionalData), key, segment)
+    )
+
+  return segmentTransform(segmentSize + SEGMENT_TAG_LENGTH, async (segment, counter, last) => {
+    try {
+      return await decrypt(segment, counter, last)
+    } catch {
+      // A final segment that opens as a middle one is intact: what followed it was cut off
+      if (last && segment.length === segmentSize + SEGMENT_TAG_LENGTH) {
+        const intact = await decrypt(segment, counter, false).then(
+          () => true,
+          () => false
+        )
+        if (intact) {
+          throw new Error(`Decryption failed: the data was truncated after segment ${counter}`)
+        }
+      }
+      // Altered associated data fails the first segment, but so does altered or cut-off data
+      if (counter === 0 && additionalData) {
+        throw new Error("Integrity check failed: the header or the data was altered, or the data was truncated")
+      }
+      throw new Error(
+        last
+          ? "Decryption failed: the data was altered or truncated"
+          : `Decryption failed at segment ${counter}: the data was altered`
+      )
+    }
+  })
+}
+
+/**
+ * Read a whole stream into one array. When the length is known in advance,
+ * pass `target` to fill it in place instead of buffering the parts and
+ * copying them; the stream must fill it exactly.
+ */
+export async function collectStream(
+  stream: ReadableStream<Uint8Array>,
+  target?: Uint8Array
+): Promise<Uint8Array> {
+  if (!target) {
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  const reader = stream.getReader()
+  let offset = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (offset + value.length > target.length) {
+      await reader.cancel()
+      throw new Error(`Stream is longer than the expected ${target.length} bytes`)
+    }
+    target.set(value, offset)
+    offset += value.length
+  }
+  if (offset !== target.length) {
+    throw new Error(`Stream ended after ${offset} of the expected ${target.length} bytes`)
+  }
+  return target
+}
@@ -1,10 +1,14 @@
 import { getFullnodeUrl, SuiClient } from "@mysten/sui/client"
 import { Transaction } from "@mysten/sui/transactions"
+import { fromHex } from "@mysten/sui/utils"
 
-const PACKAGE_ID = (process.env.NEXT_PUBLIC_SUI_PACKAGE_ID || "0x0a6363a395c02c2e59bd65cfa357b3e5a542a3420bf8c754e14531bfa4000c4f").toLowerCase()
+export const PACKAGE_ID = (process.env.NEXT_PUBLIC_SUI_PACKAGE_ID || "0x0a6363a395c02c2e59bd65cfa357b3e5a542a3420bf8c754e14531bfa4000c4f").toLowerCase()
 const STORAGE_RECEIPT_MODULE = "storage_receipt"
 const PROOF_VERIFIER_MODULE = "proof_verifier"
 const COMPLIANCE_LEDGER_MODULE = "compliance_ledger"
+const SEAL_POLICY_MODULE = "seal_policy"
+// Shared ComplianceLedger object created when the package is published
+const COMPLIANCE_LEDGER_ID = process.env.NEXT_PUBLIC_COMPLIANCE_LEDGER_ID || ""
 
 if (!PACKAGE_ID || !PACKAGE_ID.startsWith("0x") || PACKAGE_ID.length !== 66) {
   throw new Error("Invalid PACKAGE_ID format")
@@ -18,6 +22,7 @@ export interface StorageReceipt {
   policyId: string
   createdAt: number
   expiresAt: number
+  endEpoch: number
   verified: boolean
 }
 
@@ -59,6 +64,7 @@ export async function getStorageReceipt(
       policyId: fields.policy_id as string,
       createdAt: Number(fields.created_at),
       expiresAt: Number(fields.expires_at),
+      endEpoch: Number(fields.end_epoch ?? 0),
       verified: fields.verified as boolean,
     }
   } catch (error) {
@@ -94,6 +100,7 @@ export async function getReceiptsByOwner(
           policyId: fields.policy_id as string,
           createdAt: Number(fields.created_at),
           expiresAt: Number(fields.expires_at),
+          endEpoch: Number(fields.end_epoch ?? 0),
           verified: fields.verified as boolean,
         }
       })
@@ -103,13 +110,89 @@ export async function getReceiptsByOwner(
   }
 }
 
-export function buildCreateReceiptTx(params: {
-  commitment: string
-  blobId: string
-  policyId: string
-  retentionDays: number
-  consentSigned?: boolean
-}): Transaction {
+export interface PackageFeatures {
+  // create_and_transfer_receipt_with_end_epoch: receipts record the blob's end epoch
+  receiptEndEpoch: boolean
+  // storage_receipt::renew_receipt
+  receiptRenewal: boolean
+  // compliance_ledger::erase_and_record
+  receiptErasure: boolean
+  // seal_policy: on-chain policies key servers check with seal_approve
+  sealPolicy: boolean
+}
+
+const PACKAGE_FEATURE_NAMES: Record<keyof PackageFeatures, string> = {
+  receiptEndEpoch: "end-epoch receipts",
+  receiptRenewal: "receipt renewal",
+  receiptErasure: "receipt erasure",
+  sealPolicy: "the seal_policy module",
+}
+
+let packageFeatures: Promise<PackageFeatures> | null = null
+
+/**
+ * Which later additions to contracts/ the package at PACKAGE_ID was
+ * published with. The default package predates them; publish contracts/
+ * with scripts/deploy.sh and set NEXT_PUBLIC_SUI_PACKAGE_ID to enable them.
+ */
+export function getPackageFeatures(client: SuiClient = createSuiClient()): Promise<PackageFeatures> {
+  packageFeatures ??= client
+    .getNormalizedMoveModulesByPackage({ package: PACKAGE_ID })
+    .then((modules) => {
+      const has = (module: string, fn: string) => Boolean(modules[module]?.exposedFunctions[fn])
+      return {
+        receiptEndEpoch: has(STORAGE_RECEIPT_MODULE, "create_and_transfer_receipt_with_end_epoch"),
+        receiptRenewal: has(STORAGE_RECEIPT_MODULE, "renew_receipt"),
+        receiptErasure: has(COMPLIANCE_LEDGER_MODULE, "erase_and_record"),
+        sealPolicy: has(SEAL_POLICY_MODULE, "seal_approve"),
+      }
+    })
+    .catch((error) => {
+      packageFeatures = null
+      throw error
+    })
+  return packageFeatures
+}
+
+/**
+ * Throw unless the package at PACKAGE_ID has `feature`. Check before any
+ * Walrus side effects, so they never run without their Sui half.
+ */
+export async function requirePackageFeature(
+  feature: keyof PackageFeatures,
+  client?: SuiClient
+): Promise<void> {
+  if (!(await getPackageFeatures(client))[feature]) {
+    throw new Error(
+      `Package ${PACKAGE_ID} was published without ${PACKAGE_FEATURE_NAMES[feature]}. ` +
+        "Publish contracts/ with scripts/deploy.sh and set NEXT_PUBLIC_SUI_PACKAGE_ID."
+    )
+  }
+  if (feature === "receiptErasure" && !COMPLIANCE_LEDGER_ID.startsWith("0x")) {
+    throw new Error(
+      "NEXT_PUBLIC_COMPLIANCE_LEDGER_ID is not configured; set it to complianceLedgerId from contracts/deployment-info.json"
+    )
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Create a receipt lapsing with its blob. Packages without
+ * `receiptEndEpoch` only take a retention in whole days, so the receipt is
+ * rounded down to expire no later than the blob and records no end epoch.
+ */
+export function buildCreateReceiptTx(
+  params: {
+    commitment: string
+    blobId: string
+    policyId: string
+    endEpoch: number
+    expiresAt: number
+    consentSigned?: boolean
+  },
+  features: Pick<PackageFeatures, "receiptEndEpoch"> = { receiptEndEpoch: true }
+): Transaction {
   if (!params) {
     throw new Error("Parameters object is null or undefined")
   }
@@ -121,7 +204,8 @@ export function buildCreateReceiptTx(params: {
   const commitment = params.commitment ? String(params.commitment).trim() : ""
   const blobId = params.blobId ? String(params.blobId).trim() : ""
   const policyId = params.policyId ? String(params.policyId).trim() : ""
-  const retentionDays = Number(params.retentionDays) || 0
+  const endEpoch = Number(params.endEpoch)
+  const expiresAt = Number(params.expiresAt)
   const consentSigned = Boolean(params.consentSigned)
   
   if (!commitment) {
@@ -136,8 +220,12 @@ export function buildCreateReceiptTx(params: {
     throw new Error("Policy ID is required and cannot be empty")
   }
   
-  if (!Number.isInteger(retentionDays) || retentionDays < 0) {
-    throw new Error(`Invalid retention days: ${retentionDays}. Must be a non-negative integer.`)
+  if (!Number.isInteger(endEpoch) || endEpoch < 1) {
+    throw new Error(`Invalid end epoch: ${params.endEpoch}. Must be a positive integer.`)
+  }
+
+  if (!Number.isInteger(expiresAt) || expiresAt <= Date.now()) {
+    throw new Error(`Invalid expiry: ${params.expiresAt}. Must be a future timestamp in ms.`)
   }
 
   if (!PACKAGE_ID) {
@@ -159,7 +247,10 @@ export function buildCreateReceiptTx(params: {
       throw new Error("Encoded bytes cannot be empty")
     }
 
-    const target = `${normalizedPackageId}::${STORAGE_RECEIPT_MODULE}::create_and_transfer_receipt`
+    const target = features.receiptEndEpoch
+      ? `${normalizedPackageId}::${STORAGE_RECEIPT_MODULE}::create_and_transfer_receipt_with_end_epoch`
+      : `${normalizedPackageId}::${STORAGE_RECEIPT_MODULE}::create_and_transfer_receipt`
+    const retentionDays = Math.max(1, Math.floor((expiresAt - Date.now()) / DAY_MS))
     
     console.log("[buildCreateReceiptTx] Building transaction:", {
       packageId: normalizedPackageId,
@@ -167,7 +258,9 @@ export function buildCreateReceiptTx(params: {
       commitmentLength: commitmentBytes.length,
       blobIdLength: blobIdBytes.length,
       policyIdLength: policyIdBytes.length,
-      retentionDays,
+      endEpoch,
+      expiresAt,
+      retentionDays: features.receiptEndEpoch ? undefined : retentionDays,
       consentSigned,
     })
 
@@ -184,7 +277,9 @@ export function buildCreateReceiptTx(params: {
           tx.pure("vector<u8>", commitmentBytes),
           tx.pure("vector<u8>", blobIdBytes),
           tx.pure("vector<u8>", policyIdBytes),
-          tx.pure.u64(BigInt(retentionDays)),
+          ...(features.receiptEndEpoch
+            ? [tx.pure.u64(BigInt(endEpoch)), tx.pure.u64(BigInt(expiresAt))]
+            : [tx.pure.u64(BigInt(retentionDays))]),
           tx.pure.bool(consentSigned),
           tx.object("0x6"),
         ],
@@ -207,6 +302,159 @@ export function buildCreateReceiptTx(params: {
   }
 }
 
+/**
+ * Renew a receipt. Pass the transaction that extends the Walrus blob on-chain
+ * so both happen atomically. Needs the `receiptRenewal` package feature.
+ */
+export function buildRenewReceiptTx(
+  params: {
+    receiptId: string
+    newEndEpoch: number
+    newExpiresAt: number
+  },
+  tx: Transaction = new Transaction()
+): Transaction {
+  const newEndEpoch = Number(params.newEndEpoch)
+  const newExpiresAt = Number(params.newExpiresAt)
+
+  if (!params.receiptId) {
+    throw new Error("Receipt ID is required and cannot be empty")
+  }
+
+  if (!Number.isInteger(newEndEpoch) || newEndEpoch < 1) {
+    throw new Error(`Invalid end epoch: ${params.newEndEpoch}. Must be a positive integer.`)
+  }
+
+  if (!Number.isInteger(newExpiresAt) || newExpiresAt <= Date.now()) {
+    throw new Error(`Invalid expiry: ${params.newExpiresAt}. Must be a future timestamp in ms.`)
+  }
+
+  tx.moveCall({
+    target: `${PACKAGE_ID}::${STORAGE_RECEIPT_MODULE}::renew_receipt`,
+    arguments: [
+      tx.object(params.receiptId),
+      tx.pure.u64(BigInt(newEndEpoch)),
+      tx.pure.u64(BigInt(newExpiresAt)),
+      tx.object("0x6"),
+    ],
+  })
+
+  return tx
+}
+
+// Receipts expiring within this window are offered for renewal
+export const RENEWAL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+export function isNearingExpiry(receipt: StorageReceipt, now: number = Date.now()): boolean {
+  return receipt.expiresAt > now && receipt.expiresAt - now <= RENEWAL_WINDOW_MS
+}
+
+/**
+ * Erase a receipt and record erasure evidence in the compliance ledger.
+ * Pass the transaction that deletes the Walrus blob so both happen
+ * atomically. `evidence` is the deleted Blob object ID or, if the blob was
+ * deleted separately, that deletion's transaction digest. Needs the
+ * `receiptErasure` package feature.
+ */
+export function buildEraseReceiptTx(
+  params: {
+    receiptId: string
+    evidence: string
+  },
+  tx: Transaction = new Transaction()
+): Transaction {
+  if (!params.receiptId) {
+    throw new Error("Receipt ID is required and cannot be empty")
+  }
+
+  if (!params.evidence) {
+    throw new Error("Erasure evidence is required and cannot be empty")
+  }
+
+  if (!COMPLIANCE_LEDGER_ID.startsWith("0x")) {
+    throw new Error("NEXT_PUBLIC_COMPLIANCE_LEDGER_ID is not configured")
+  }
+
+  tx.moveCall({
+    target: `${PACKAGE_ID}::${COMPLIANCE_LEDGER_MODULE}::erase_and_record`,
+    arguments: [
+      tx.object(COMPLIANCE_LEDGER_ID),
+      tx.object(params.receiptId),
+      tx.pure("vector<u8>", Array.from(new TextEncoder().encode(params.evidence))),
+      tx.object("0x6"),
+    ],
+  })
+
+  return tx
+}
+
+/**
+ * Create and share an on-chain Seal policy (seal_policy.move) mirroring a
+ * client-side policy. Key servers release keys for identities under it
+ * while `seal_approve` passes. Needs the `sealPolicy` package feature.
+ */
+export function buildCreateSealPolicyTx(params: {
+  policyId: string
+  expiresAt: number
+  allowlist?: string[]
+  consentRequired: boolean
+  consentGiven: boolean
+}): Transaction {
+  if (!/^[0-9a-fA-F]+$/.test(params.policyId)) {
+    throw new Error(`Invalid policy ID: ${params.policyId}`)
+  }
+
+  if (!Number.isInteger(params.expiresAt) || params.expiresAt <= Date.now()) {
+    throw new Error(`Invalid expiry: ${params.expiresAt}. Must be a future timestamp in ms.`)
+  }
+
+  const tx = new Transaction()
+  tx.moveCall({
+    target: `${PACKAGE_ID}::${SEAL_POLICY_MODULE}::create_and_share_policy`,
+    arguments: [
+      tx.pure.vector("u8", Array.from(fromHex(params.policyId))),
+      tx.pure.u64(BigInt(params.expiresAt)),
+      tx.pure.vector("address", params.allowlist ?? []),
+      tx.pure.bool(params.consentRequired),
+      tx.pure.bool(params.consentGiven),
+      tx.object("0x6"),
+    ],
+  })
+
+  return tx
+}
+
+/**
+ * Find the SealPolicy object created by a buildCreateSealPolicyTx transaction
+ */
+export async function getCreatedSealPolicyId(client: SuiClient, digest: string): Promise<string> {
+  const result = await client.waitForTransaction({ digest, options: { showObjectChanges: true } })
+  const created = result.objectChanges?.find(
+    (change) => change.type === "created" && change.objectType.endsWith(`::${SEAL_POLICY_MODULE}::SealPolicy`)
+  )
+  if (!created || created.type !== "created") {
+    throw new Error(`Transaction ${digest} didn't create a Seal policy`)
+  }
+  return created.objectId
+}
+
+/**
+ * The `seal_approve` call key servers dry-run before releasing the key for
+ * `identity` (hex), as transaction kind bytes
+ */
+export async function buildSealApproveTxBytes(
+  client: SuiClient,
+  policyObjectId: string,
+  identity: string
+): Promise<Uint8Array> {
+  const tx = new Transaction()
+  tx.moveCall({
+    target: `${PACKAGE_ID}::${SEAL_POLICY_MODULE}::seal_approve`,
+    arguments: [tx.pure.vector("u8", Array.from(fromHex(identity))), tx.object(policyObjectId), tx.object("0x6")],
+  })
+  return tx.build({ client, onlyTransactionKind: true })
+}
+
 export function buildSubmitProofTx(params: {
   receiptId: string
   proofHash: string
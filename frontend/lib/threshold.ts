@@ -0,0 +1,236 @@
+/**
+ * Threshold Access
+ * Splits an envelope's data key with Shamir secret sharing among a policy's
+ * key holders, one share wrapped to each holder's X25519 key. A holder
+ * approves a request by re-wrapping their share to the requester's key; the
+ * requester reconstructs the data key once `required` valid approvals are
+ * presented. Share digests in the envelope let approvals be checked before
+ * they're combined, so only genuine approvals count.
+ */
+
+import { fromHex, toHex } from "@mysten/sui/utils"
+import {
+  decapsulateShare,
+  encapsulateShares,
+  parsePublicKey,
+  type EncryptionKeyPair,
+  type WrappedShare,
+} from "./key-encapsulation"
+import { combineShares, splitSecret, type SecretShare } from "./shamir"
+
+// Key holders the threshold proof circuit supports (ThresholdProof(10))
+export const MAX_KEY_HOLDERS = 10
+
+const SHARE_DIGEST_DOMAIN = "zkStorage share v1"
+
+export interface ThresholdShares {
+  // Shares needed to reconstruct the data key
+  required: number
+  // Ephemeral X25519 public key the holders' wrapping keys derive from
+  ephemeralPublicKey: Uint8Array
+  // One share per key holder, in policy order
+  shares: WrappedShare[]
+  // SHA-256 of each share, hex, in the same order
+  shareDigests: string[]
+}
+
+export interface ShareApproval {
+  policyId: string
+  // Index of the approving holder's share
+  index: number
+  // Approving holder's X25519 public key, hex
+  holderPublicKey: string
+  // Requester's X25519 public key the share is wrapped to, hex
+  requesterPublicKey: string
+  ephemeralPublicKey: Uint8Array
+  wrappedShare: Uint8Array
+}
+
+/**
+ * Envelope fields threshold access needs (see EncryptedEnvelope)
+ */
+interface ThresholdEnvelope {
+  policyId: string
+  threshold?: ThresholdShares
+}
+
+async function shareDigest(policyId: string, share: SecretShare): Promise<string> {
+  const prefix = new TextEncoder().encode(`${SHARE_DIGEST_DOMAIN}:${policyId}:${share.index}:`)
+  const data = new Uint8Array(prefix.length + share.share.length)
+  data.set(prefix)
+  data.set(share.share, prefix.length)
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)))
+}
+
+/**
+ * Split a data key among the key holders (X25519 public keys, hex) so that
+ * any `required` of them can reconstruct it
+ */
+export async function splitDataKey(
+  dataKey: CryptoKey,
+  threshold: { required: number; keyHolders: string[] },
+  policyId: string
+): Promise<ThresholdShares> {
+  const holders = threshold.keyHolders.map((hex) => toHex(parsePublicKey(hex)))
+  if (holders.length === 0 || holders.length > MAX_KEY_HOLDERS) {
+    throw new Error(`A threshold policy needs between 1 and ${MAX_KEY_HOLDERS} key holders`)
+  }
+  if (new Set(holders).size !== holders.length) {
+    throw new Error("Key holders must be distinct")
+  }
+
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey("raw", dataKey))
+  const shares = splitSecret(rawKey, threshold.required, holders.length)
+  const { ephemeralPublicKey, shares: wrapped } = await encapsulateShares(shares, holders, policyId)
+
+  return {
+    required: threshold.required,
+    ephemeralPublicKey,
+    shares: wrapped,
+    shareDigests: await Promise.all(shares.map((share) => shareDigest(policyId, share))),
+  }
+}
+
+/**
+ * Approve access for a requester as a key holder: unwrap the holder's share
+ * and wrap it to the requester's public key
+ */
+export async function approveShare(
+  envelope: ThresholdEnvelope,
+  keyPair: EncryptionKeyPair,
+  requesterPublicKey: string
+): Promise<ShareApproval> {
+  const wrapped = envelope.threshold?.shares.find((share) => share.publicKey === keyPair.publicKey)
+  if (!wrapped) {
+    throw new Error("This wallet isn't a key holder of the encrypted data")
+  }
+
+  const share = await decapsulateShare(envelope.threshold!.ephemeralPublicKey, wrapped, keyPair, envelope.policyId)
+  const requester = toHex(parsePublicKey(requesterPublicKey))
+  const rewrapped = await encapsulateShares([{ index: wrapped.index, share }], [requester], envelope.policyId)
+
+  return {
+    policyId: envelope.policyId,
+    index: wrapped.index,
+    holderPublicKey: keyPair.publicKey,
+    requesterPublicKey: requester,
+    ephemeralPublicKey: rewrapped.ephemeralPublicKey,
+    wrappedShare: rewrapped.shares[0].wrappedKey,
+  }
+}
+
+/**
+ * Check approvals against the envelope and return the genuine shares, at
+ * most one per holder. Approvals for another policy or requester, or whose
+ * share doesn't match the envelope's digest, are skipped.
+ */
+export async function verifyApprovals(
+  envelope: ThresholdEnvelope,
+  approvals: ShareApproval[],
+  keyPair: EncryptionKeyPair
+): Promise<SecretShare[]> {
+  const threshold = envelope.threshold
+  if (!threshold) {
+    throw new Error("The encrypted data has no key holders")
+  }
+
+  const shares = new Map<number, SecretShare>()
+  for (const approval of approvals) {
+    const position = threshold.shares.findIndex((share) => share.index === approval.index)
+    if (
+      position === -1 ||
+      approval.policyId !== envelope.policyId ||
+      approval.requesterPublicKey !== keyPair.publicKey ||
+      approval.holderPublicKey !== threshold.shares[position].publicKey
+    ) {
+      console.warn(`Skipping approval for share ${approval.index}: it doesn't match this request`)
+      continue
+    }
+    if (shares.has(approval.index)) continue
+
+    try {
+      const share = await decapsulateShare(
+        approval.ephemeralPublicKey,
+        { index: approval.index, publicKey: approval.requesterPublicKey, wrappedKey: approval.wrappedShare },
+        keyPair,
+        envelope.policyId
+      )
+      const digest = await shareDigest(envelope.policyId, { index: approval.index, share })
+      if (digest !== threshold.shareDigests[position]) {
+        console.warn(`Skipping approval for share ${approval.index}: the share doesn't match the envelope`)
+        continue
+      }
+      shares.set(approval.index, { index: approval.index, share })
+    } catch (e) {
+      console.warn(`Skipping approval for share ${approval.index}:`, e)
+    }
+  }
+
+  return [...shares.values()]
+}
+
+/**
+ * Reconstruct the data key from key holders' approvals. Fails unless at
+ * least `required` of them are genuine.
+ */
+export async function reconstructDataKey(
+  envelope: ThresholdEnvelope,
+  approvals: ShareApproval[],
+  keyPair: EncryptionKeyPair
+): Promise<CryptoKey> {
+  const shares = await verifyApprovals(envelope, approvals, keyPair)
+  const required = envelope.threshold!.required
+  if (shares.length < required) {
+    throw new Error(`${shares.length} of ${required} required key holder approvals are valid`)
+  }
+
+  const rawKey = new Uint8Array(combineShares(shares.slice(0, required)))
+  return crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM", length: 256 }, false, ["decrypt"])
+}
+
+/**
+ * Serialize an approval as one line of JSON, to send to the requester
+ */
+export function serializeApproval(approval: ShareApproval): string {
+  return JSON.stringify({
+    ...approval,
+    ephemeralPublicKey: toHex(approval.ephemeralPublicKey),
+    wrappedShare: toHex(approval.wrappedShare),
+  })
+}
+
+/**
+ * Parse approvals pasted one per line
+ */
+export function parseApprovals(text: string): ShareApproval[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const parsed = JSON.parse(line)
+      if (
+        typeof parsed.policyId !== "string" ||
+        !Number.isInteger(parsed.index) ||
+        typeof parsed.holderPublicKey !== "string" ||
+        typeof parsed.requesterPublicKey !== "string"
+      ) {
+        throw new Error("Invalid key holder approval")
+      }
+      return {
+        policyId: parsed.policyId,
+        index: parsed.index,
+        holderPublicKey: parsed.holderPublicKey,
+        requesterPublicKey: parsed.requesterPublicKey,
+        ephemeralPublicKey: parsePublicKey(parsed.ephemeralPublicKey),
+        wrappedShare: fromHexStrict(parsed.wrappedShare),
+      }
+    })
+}
+
+function fromHexStrict(hex: unknown): Uint8Array {
+  if (typeof hex !== "string" || !/^([0-9a-f]{2})+$/.test(hex)) {
+    throw new Error("Invalid key holder approval")
+  }
+  return fromHex(hex)
+}
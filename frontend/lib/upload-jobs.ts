@@ -0,0 +1,122 @@
+/**
+ * Resumable Upload Jobs
+ * Persists in-progress uploads to IndexedDB so a reload during processing
+ * can pick up where it left off. Jobs keep the serialized envelope (which
+ * carries the wrapped key), so a resumed upload stores exactly the bytes the
+ * commitment and policy were created for.
+ */
+
+import type { ChunkingParams } from "./chunking"
+import {
+  ENVELOPE_STORE,
+  JOB_STORE,
+  isLocalDbAvailable,
+  openDb,
+  requestToPromise,
+  transactionDone,
+} from "./local-db"
+import type { SealPolicy } from "./seal"
+import type { StoredChunk, UploadResult } from "./walrus"
+
+export type UploadJobStage = "commitment" | "encryption" | "upload"
+
+export interface UploadJob {
+  id: string
+  fileName: string
+  fileSize: number
+  retentionDays: number
+  consentSigned: boolean
+  deletable: boolean
+  sendObjectTo?: string
+  // Fixed when the job is created, so a resume stores for the same epochs
+  epochs: number
+  chunkSize: number
+  // Merkle root, upload commitment and the commitment timestamp (seconds)
+  commitment: string
+  combinedCommitment: string
+  committedAt: number
+  // Leaf chunking of the Merkle root; fixed-size when absent
+  chunking?: ChunkingParams
+  // Canonical commitment metadata (hex) and its digest; absent on older jobs
+  metadata?: string
+  metadataDigest?: string
+  policy: SealPolicy
+  envelopeSize: number
+  completedStages: UploadJobStage[]
+  // Chunk blobs already stored on Walrus
+  chunks: StoredChunk[]
+  // Set once the upload stage completes
+  result?: UploadResult
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Whether upload jobs can be persisted in this environment
+ */
+export function isUploadJobStoreAvailable(): boolean {
+  return isLocalDbAvailable()
+}
+
+/**
+ * Persist a new job together with its envelope
+ */
+export async function saveUploadJob(job: UploadJob, envelope: Uint8Array): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([JOB_STORE, ENVELOPE_STORE], "readwrite")
+  tx.objectStore(JOB_STORE).put(job)
+  tx.objectStore(ENVELOPE_STORE).put(envelope, job.id)
+  await transactionDone(tx)
+}
+
+/**
+ * Merge an update into a stored job, returning the updated job
+ */
+export async function updateUploadJob(
+  id: string,
+  update: Partial<Omit<UploadJob, "id">>
+): Promise<UploadJob> {
+  const db = await openDb()
+  const tx = db.transaction(JOB_STORE, "readwrite")
+  const store = tx.objectStore(JOB_STORE)
+  const existing: UploadJob | undefined = await requestToPromise(store.get(id))
+  if (!existing) {
+    tx.abort()
+    throw new Error(`Upload job ${id} not found`)
+  }
+
+  const job: UploadJob = { ...existing, ...update, id, updatedAt: Date.now() }
+  store.put(job)
+  await transactionDone(tx)
+  return job
+}
+
+/**
+ * Unfinished jobs, most recent first
+ */
+export async function listUploadJobs(): Promise<UploadJob[]> {
+  const db = await openDb()
+  const jobs: UploadJob[] = await requestToPromise(
+    db.transaction(JOB_STORE, "readonly").objectStore(JOB_STORE).getAll()
+  )
+  return jobs.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function loadUploadEnvelope(id: string): Promise<Uint8Array | null> {
+  const db = await openDb()
+  const envelope: Uint8Array | undefined = await requestToPromise(
+    db.transaction(ENVELOPE_STORE, "readonly").objectStore(ENVELOPE_STORE).get(id)
+  )
+  return envelope ?? null
+}
+
+/**
+ * Remove a job and its envelope, once finished or discarded
+ */
+export async function deleteUploadJob(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([JOB_STORE, ENVELOPE_STORE], "readwrite")
+  tx.objectStore(JOB_STORE).delete(id)
+  tx.objectStore(ENVELOPE_STORE).delete(id)
+  await transactionDone(tx)
+}
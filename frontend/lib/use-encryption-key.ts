@@ -0,0 +1,34 @@
+"use client"
+
+import { useCallback } from "react"
+import { useCurrentAccount, useSignPersonalMessage } from "@mysten/dapp-kit"
+import { deriveEncryptionKeyPair, ENCRYPTION_KEY_MESSAGE, type EncryptionKeyPair } from "./key-encapsulation"
+
+// Derived key pairs by address, kept in memory only so each session signs once
+const keyPairs = new Map<string, Promise<EncryptionKeyPair>>()
+
+/**
+ * Returns a function that resolves the connected wallet's encryption key
+ * pair, asking the wallet to sign ENCRYPTION_KEY_MESSAGE the first time
+ */
+export function useEncryptionKey() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+
+  return useCallback(async (): Promise<EncryptionKeyPair> => {
+    if (!account) {
+      throw new Error("Connect a wallet to use your encryption key")
+    }
+
+    let keyPair = keyPairs.get(account.address)
+    if (!keyPair) {
+      keyPair = signPersonalMessage({ message: new TextEncoder().encode(ENCRYPTION_KEY_MESSAGE) }).then(
+        ({ signature }) => deriveEncryptionKeyPair(signature)
+      )
+      keyPairs.set(account.address, keyPair)
+      // A rejected signature shouldn't stick
+      keyPair.catch(() => keyPairs.delete(account.address))
+    }
+    return keyPair
+  }, [account, signPersonalMessage])
+}
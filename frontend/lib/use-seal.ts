@@ -0,0 +1,69 @@
+"use client"
+
+import { useCallback } from "react"
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from "@mysten/dapp-kit"
+import type { SessionKey } from "@mysten/seal"
+import { createSessionKey } from "./seal-client"
+import { buildCreateSealPolicyTx, createSuiClient, getCreatedSealPolicyId, requirePackageFeature } from "./sui"
+import type { SealPolicy } from "./seal"
+
+// Session keys by address, in memory only; replaced once expired
+const sessions = new Map<string, Promise<SessionKey>>()
+
+/**
+ * Returns a function that resolves a Seal session key for the connected
+ * wallet, asking the wallet to sign the session message when there is no
+ * live one
+ */
+export function useSealSession() {
+  const account = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+
+  return useCallback(async (): Promise<SessionKey> => {
+    if (!account) {
+      throw new Error("Connect a wallet to request Seal keys")
+    }
+
+    const existing = sessions.get(account.address)
+    if (existing) {
+      const sessionKey = await existing.catch(() => null)
+      if (sessionKey && !sessionKey.isExpired()) return sessionKey
+    }
+
+    const session = createSessionKey(account.address, async (message) => {
+      const { signature } = await signPersonalMessage({ message })
+      return signature
+    })
+    sessions.set(account.address, session)
+    // A rejected signature shouldn't stick
+    session.catch(() => sessions.delete(account.address))
+    return session
+  }, [account, signPersonalMessage])
+}
+
+/**
+ * Returns a function that creates a policy's on-chain SealPolicy object with
+ * the connected wallet and resolves to its object ID
+ */
+export function useCreateSealPolicy() {
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+
+  return useCallback(
+    async (policy: SealPolicy): Promise<string> => {
+      await requirePackageFeature("sealPolicy")
+      const tx = buildCreateSealPolicyTx({
+        policyId: policy.id,
+        expiresAt: policy.expiresAt,
+        allowlist: policy.allowlist,
+        consentRequired: policy.consentRequired,
+        consentGiven: Boolean(policy.consentSignature),
+      })
+      const { digest } = await signAndExecute({
+        transaction: tx as unknown as Parameters<typeof signAndExecute>[0]["transaction"],
+        chain: "sui:testnet",
+      })
+      return getCreatedSealPolicyId(createSuiClient(), digest)
+    },
+    [signAndExecute]
+  )
+}
@@ -0,0 +1,345 @@
+/**
+ * Walrus Endpoint Registry
+ * Orders publishers and aggregators by measured health, with a circuit
+ * breaker for endpoints that keep failing
+ */
+
+export type WalrusNetwork = "testnet" | "mainnet" | "local"
+export type EndpointKind = "publisher" | "aggregator"
+
+export interface EndpointConfig {
+  publishers: string[]
+  aggregators: string[]
+}
+
+export interface EndpointHealth {
+  // Exponentially weighted average latency in ms
+  latencyMs: number
+  // Exponentially weighted failure rate (0..1)
+  failureRate: number
+  consecutiveFailures: number
+  // Circuit breaker: endpoint is skipped until this time (ms)
+  openUntil: number
+  lastCheckedAt: number
+}
+
+const LOCAL_WALRUS_URL = process.env.NEXT_PUBLIC_WALRUS_LOCAL_URL || "http://localhost:31415"
+
+const DEFAULT_ENDPOINTS: Record<WalrusNetwork, EndpointConfig> = {
+  testnet: {
+    publishers: [
+      "https://publisher.walrus-testnet.walrus.space",
+      "https://wal-publisher-testnet.staketab.org",
+      "https://walrus-testnet-publisher.bartestnet.com",
+      "https://walrus-testnet.blockscope.net",
+    ],
+    aggregators: [
+      "https://aggregator.walrus-testnet.walrus.space",
+      "https://wal-aggregator-testnet.staketab.org",
+      "https://walrus-testnet-aggregator.bartestnet.com",
+      "https://walrus-testnet.blockscope.net:443",
+    ],
+  },
+  mainnet: {
+    // There are no public mainnet publishers; configure your own
+    publishers: [],
+    aggregators: [
+      "https://aggregator.walrus-mainnet.walrus.space",
+    ],
+  },
+  // scripts/walrus-local.mjs, for offline development and tests
+  local: {
+    publishers: [LOCAL_WALRUS_URL],
+    aggregators: [LOCAL_WALRUS_URL],
+  },
+}
+
+// Per-request timeouts
+export const PUBLISHER_TIMEOUT_MS = 120_000
+export const AGGREGATOR_TIMEOUT_MS = 30_000
+
+const HEALTH_STORAGE_KEY = "zkStorage_walrusHealth"
+const OVERRIDES_STORAGE_KEY = "zkStorage_walrusEndpoints"
+
+// Circuit breaker opens after this many consecutive failures
+const BREAKER_THRESHOLD = 3
+const BREAKER_BASE_COOLDOWN_MS = 60_000
+const BREAKER_MAX_COOLDOWN_MS = 10 * 60_000
+
+// Weight given to the newest sample in the moving averages
+const EWMA_ALPHA = 0.3
+// Latency assumed for endpoints that have never been measured
+const UNKNOWN_LATENCY_MS = 1_000
+
+let healthCache: Record<string, EndpointHealth> | null = null
+
+function hasStorage(): boolean {
+  return typeof window !== "undefined" && typeof window.localStorage !== "undefined"
+}
+
+function loadHealth(): Record<string, EndpointHealth> {
+  if (healthCache) return healthCache
+
+  healthCache = {}
+  if (hasStorage()) {
+    try {
+      const stored = localStorage.getItem(HEALTH_STORAGE_KEY)
+      if (stored) healthCache = JSON.parse(stored)
+    } catch (e) {
+      console.warn("Failed to load Walrus endpoint health:", e)
+    }
+  }
+  return healthCache!
+}
+
+function saveHealth(): void {
+  if (!hasStorage() || !healthCache) return
+  try {
+    localStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(healthCache))
+  } catch (e) {
+    console.warn("Failed to persist Walrus endpoint health:", e)
+  }
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined
+  const list = value
+    .split(",")
+    .map((url) => url.trim().replace(/\/+$/, ""))
+    .filter(Boolean)
+  return list.length > 0 ? list : undefined
+}
+
+/**
+ * Network the registry serves, from env (defaults to testnet)
+ */
+export function getWalrusNetwork(): WalrusNetwork {
+  const network = process.env.NEXT_PUBLIC_WALRUS_NETWORK || process.env.NEXT_PUBLIC_SUI_NETWORK
+  return network === "mainnet" || network === "local" ? network : "testnet"
+}
+
+/**
+ * Read endpoint overrides saved from settings
+ */
+export function getEndpointOverrides(): Partial<EndpointConfig> {
+  if (!hasStorage()) return {}
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Save endpoint overrides (pass an empty object to clear them)
+ */
+export function setEndpointOverrides(overrides: Partial<EndpointConfig>): void {
+  if (!hasStorage()) return
+  const cleaned: Partial<EndpointConfig> = {}
+  if (overrides.publishers?.length) cleaned.publishers = overrides.publishers
+  if (overrides.aggregators?.length) cleaned.aggregators = overrides.aggregators
+  localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(cleaned))
+}
+
+/**
+ * Resolve the configured endpoints. Precedence: settings, env, defaults.
+ */
+export function getEndpointConfig(network: WalrusNetwork = getWalrusNetwork()): EndpointConfig {
+  const overrides = getEndpointOverrides()
+  const defaults = DEFAULT_ENDPOINTS[network]
+
+  return {
+    publishers:
+      overrides.publishers ??
+      parseList(process.env.NEXT_PUBLIC_WALRUS_PUBLISHER) ??
+      defaults.publishers,
+    aggregators:
+      overrides.aggregators ??
+      parseList(process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR) ??
+      defaults.aggregators,
+  }
+}
+
+/**
+ * Lower is better: latency inflated by the recent failure rate
+ */
+function score(health: EndpointHealth | undefined): number {
+  if (!health) return UNKNOWN_LATENCY_MS
+  return health.latencyMs * (1 + 4 * health.failureRate)
+}
+
+/**
+ * Endpoints of a kind, healthiest first. Endpoints with an open circuit
+ * are skipped unless every endpoint is open.
+ */
+export function getEndpoints(kind: EndpointKind): string[] {
+  const config = getEndpointConfig()
+  const endpoints = kind === "publisher" ? config.publishers : config.aggregators
+
+  if (endpoints.length === 0) {
+    throw new Error(`No Walrus ${kind} endpoints configured for ${getWalrusNetwork()}`)
+  }
+
+  const health = loadHealth()
+  const now = Date.now()
+
+  const closed = endpoints.filter((url) => (health[url]?.openUntil ?? 0) <= now)
+  if (closed.length === 0) {
+    // Everything is tripped; try the one that recovers soonest first
+    return [...endpoints].sort((a, b) => health[a].openUntil - health[b].openUntil)
+  }
+
+  // Array.prototype.sort is stable, so configured order breaks ties
+  return closed.sort((a, b) => score(health[a]) - score(health[b]))
+}
+
+/**
+ * Record a successful request
+ */
+export function recordSuccess(url: string, latencyMs: number): void {
+  const health = loadHealth()
+  const prev = health[url]
+
+  health[url] = {
+    latencyMs: prev ? prev.latencyMs + EWMA_ALPHA * (latencyMs - prev.latencyMs) : latencyMs,
+    failureRate: prev ? prev.failureRate * (1 - EWMA_ALPHA) : 0,
+    consecutiveFailures: 0,
+    openUntil: 0,
+    lastCheckedAt: Date.now(),
+  }
+  saveHealth()
+}
+
+/**
+ * Record a failed request, opening the circuit after repeated failures
+ */
+export function recordFailure(url: string): void {
+  const health = loadHealth()
+  const prev = health[url]
+  const now = Date.now()
+  const consecutiveFailures = (prev?.consecutiveFailures ?? 0) + 1
+
+  let openUntil = 0
+  if (consecutiveFailures >= BREAKER_THRESHOLD) {
+    const cooldown = BREAKER_BASE_COOLDOWN_MS * 2 ** (consecutiveFailures - BREAKER_THRESHOLD)
+    openUntil = now + Math.min(cooldown, BREAKER_MAX_COOLDOWN_MS)
+  }
+
+  health[url] = {
+    latencyMs: prev?.latencyMs ?? UNKNOWN_LATENCY_MS,
+    failureRate: (prev?.failureRate ?? 0) * (1 - EWMA_ALPHA) + EWMA_ALPHA,
+    consecutiveFailures,
+    openUntil,
+    lastCheckedAt: now,
+  }
+  saveHealth()
+}
+
+/**
+ * Current health snapshot for all known endpoints
+ */
+export function getEndpointHealth(): Record<string, EndpointHealth> {
+  return { ...loadHealth() }
+}
+
+/**
+ * Forget all measured health
+ */
+export function resetEndpointHealth(): void {
+  healthCache = {}
+  saveHealth()
+}
+
+/**
+ * Fetch from an endpoint with a timeout, recording the outcome. Network
+ * errors, timeouts and 5xx responses count against the endpoint; other
+ * responses are returned to the caller as-is and count for it once their
+ * body has been read. The timeout runs while waiting for the headers and
+ * for each read of the body, so a stalled body fails too, but not while
+ * the consumer holds a chunk. Aborting `init.signal` cancels the request
+ * (and body) without penalising the endpoint.
+ */
+export async function fetchFromEndpoint(
+  endpoint: string,
+  path: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const startedAt = Date.now()
+  const callerSignal = init.signal
+  const onCallerAbort = () => controller.abort()
+
+  if (callerSignal?.aborted) controller.abort()
+  callerSignal?.addEventListener("abort", onCallerAbort, { once: true })
+
+  const arm = () => {
+    timer = setTimeout(() => controller.abort(), timeoutMs)
+  }
+  const finish = () => {
+    clearTimeout(timer)
+    callerSignal?.removeEventListener("abort", onCallerAbort)
+  }
+  const failed = (err: unknown): Error => {
+    finish()
+    if (callerSignal?.aborted) return new Error("Request cancelled")
+    recordFailure(endpoint)
+    if (controller.signal.aborted) return new Error(`Timed out after ${timeoutMs}ms`)
+    return err instanceof Error ? err : new Error(String(err))
+  }
+
+  let response: Response
+  arm()
+  try {
+    response = await fetch(`${endpoint}${path}`, { ...init, signal: controller.signal })
+  } catch (err) {
+    throw failed(err)
+  }
+  clearTimeout(timer)
+
+  // Latency is time to headers; the body's length says nothing about it
+  const latencyMs = Date.now() - startedAt
+  const succeeded = () => {
+    finish()
+    if (response.status < 500) recordSuccess(endpoint, latencyMs)
+  }
+  if (response.status >= 500) recordFailure(endpoint)
+
+  if (!response.body) {
+    succeeded()
+    return response
+  }
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(streamController) {
+      let result: ReadableStreamReadResult<Uint8Array>
+      arm()
+      try {
+        result = await reader.read()
+      } catch (err) {
+        throw failed(err)
+      }
+      clearTimeout(timer)
+
+      if (result.done) {
+        succeeded()
+        streamController.close()
+        return
+      }
+      streamController.enqueue(result.value)
+    },
+    cancel(reason) {
+      finish()
+      return reader.cancel(reason)
+    },
+  })
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  })
+}
@@ -0,0 +1,125 @@
+/**
+ * Walrus Epoch Utilities
+ * Converts between wall-clock time and Walrus epochs using the epoch
+ * duration and current epoch reported by the network
+ */
+
+import type { SuiClient } from "@mysten/sui/client"
+import { getEndpoints, getWalrusNetwork, type WalrusNetwork } from "./walrus-endpoints"
+import { findMoveField, getSystemObjectId, getVersionedInnerFields } from "./walrus-pricing"
+
+export interface EpochInfo {
+  currentEpoch: number
+  epochDurationMs: number
+  // Start of the current epoch (ms since Unix epoch)
+  epochStartMs: number
+  // Furthest ahead a blob can be stored, in epochs
+  maxEpochsAhead: number
+}
+
+// Walrus Staking shared objects
+const STAKING_OBJECT_IDS: Partial<Record<WalrusNetwork, string>> = {
+  testnet: "0x20266a17b4f1a216727f3eef5772f8d486a9e3b5e319af80a5b75809c035561d",
+  mainnet: "0x10b9d30c28448939ce6c4d6c6e0ffce4a7f8a4ada8248bdad09ef8b70e4a3904",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MAX_EPOCHS_AHEAD = 53
+
+const EPOCH_INFO_TTL_MS = 5 * 60 * 1000
+let epochInfoCache: { info: EpochInfo; fetchedAt: number } | null = null
+
+/**
+ * Epoch info from the local Walrus stand-in (scripts/walrus-local.mjs)
+ */
+async function getLocalEpochInfo(): Promise<EpochInfo> {
+  const [endpoint] = getEndpoints("aggregator")
+  const response = await fetch(`${endpoint}/v1/local/epoch`)
+  if (!response.ok) {
+    throw new Error(`Local Walrus epoch info unavailable: HTTP ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Read the current epoch, its start and the epoch duration from the Walrus
+ * staking object, and the storage horizon from the system object
+ */
+export async function getEpochInfo(client: SuiClient): Promise<EpochInfo> {
+  const network = getWalrusNetwork()
+
+  if (epochInfoCache && Date.now() - epochInfoCache.fetchedAt < EPOCH_INFO_TTL_MS) {
+    return epochInfoCache.info
+  }
+
+  let info: EpochInfo
+  if (network === "local") {
+    info = await getLocalEpochInfo()
+  } else {
+    const stakingObjectId =
+      process.env.NEXT_PUBLIC_WALRUS_STAKING_OBJECT || STAKING_OBJECT_IDS[network]
+    if (!stakingObjectId) {
+      throw new Error(`No Walrus staking object configured for ${network}`)
+    }
+
+    const [staking, system] = await Promise.all([
+      getVersionedInnerFields(client, stakingObjectId),
+      getVersionedInnerFields(client, getSystemObjectId(network)),
+    ])
+
+    const epochDuration = findMoveField(staking, "epoch_duration")
+    const firstEpochStart = findMoveField(staking, "first_epoch_start")
+    const epoch = findMoveField(staking, "epoch")
+    if (epochDuration === undefined || firstEpochStart === undefined || epoch === undefined) {
+      throw new Error("Walrus epoch fields missing from staking state")
+    }
+
+    const currentEpoch = Number(epoch)
+    const epochDurationMs = Number(epochDuration)
+    const futureAccounting = findMoveField(system, "future_accounting")
+    const maxEpochsAhead = Number(findMoveField(futureAccounting, "length") ?? DEFAULT_MAX_EPOCHS_AHEAD)
+
+    info = {
+      currentEpoch,
+      epochDurationMs,
+      // Epoch 1 starts at first_epoch_start; epochs are back to back after that
+      epochStartMs: Number(firstEpochStart) + Math.max(0, currentEpoch - 1) * epochDurationMs,
+      maxEpochsAhead,
+    }
+  }
+
+  epochInfoCache = { info, fetchedAt: Date.now() }
+  return info
+}
+
+/**
+ * Time at which a blob with the given end epoch stops being available
+ */
+export function epochsToDate(endEpoch: number, info: EpochInfo): Date {
+  return new Date(info.epochStartMs + (endEpoch - info.currentEpoch) * info.epochDurationMs)
+}
+
+/**
+ * Number of epochs to store a blob for so that it is available until at
+ * least the given date. Throws if that is beyond the storage horizon.
+ */
+export function dateToEpochs(date: Date | number, info: EpochInfo): number {
+  const target = typeof date === "number" ? date : date.getTime()
+  const epochs = Math.max(1, Math.ceil((target - info.epochStartMs) / info.epochDurationMs))
+
+  if (epochs > info.maxEpochsAhead) {
+    throw new Error(
+      `Requested lifetime needs ${epochs} epochs; Walrus stores at most ${info.maxEpochsAhead} epochs ahead`
+    )
+  }
+
+  return epochs
+}
+
+/**
+ * Longest retention that can be stored from now, in whole days
+ */
+export function maxRetentionDays(info: EpochInfo, now: number = Date.now()): number {
+  const horizon = info.epochStartMs + info.maxEpochsAhead * info.epochDurationMs
+  return Math.max(0, Math.floor((horizon - now) / DAY_MS))
+}
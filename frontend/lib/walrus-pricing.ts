@@ -0,0 +1,271 @@
+/**
+ * Walrus Storage Pricing
+ * Quotes storage cost from the on-chain Walrus system object, accounting
+ * for the size overhead of erasure coding
+ */
+
+import type { SuiClient } from "@mysten/sui/client"
+import { getWalrusNetwork, type WalrusNetwork } from "./walrus-endpoints"
+
+export interface WalrusPricing {
+  // FROST per storage unit per epoch
+  storagePricePerUnit: bigint
+  // FROST per storage unit, paid once on registration
+  writePricePerUnit: bigint
+  nShards: number
+  currentEpoch: number
+}
+
+export interface StorageQuote {
+  unencodedSize: number
+  encodedSize: number
+  storageUnits: number
+  epochs: number
+  storageCostFrost: bigint
+  writeCostFrost: bigint
+  totalFrost: bigint
+  // Estimated SUI gas for registering and certifying the blob(s)
+  gasMist: bigint
+  pricing: WalrusPricing
+}
+
+// Walrus charges per MiB of encoded size
+export const STORAGE_UNIT_SIZE = 1024 * 1024
+export const FROST_PER_WAL = BigInt(1_000_000_000)
+
+// Walrus System shared objects
+const SYSTEM_OBJECT_IDS: Partial<Record<WalrusNetwork, string>> = {
+  testnet: "0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af",
+  mainnet: "0x2134d52768ea07e8c43570ef975eb3e4c27a39fa6396bef985b5abc58d03ddd2",
+}
+
+// Pricing used by scripts/walrus-local.mjs (keep in sync)
+const LOCAL_PRICING: WalrusPricing = {
+  storagePricePerUnit: BigInt(100_000),
+  writePricePerUnit: BigInt(20_000),
+  nShards: 1000,
+  currentEpoch: 0,
+}
+
+// Approximate gas units for one register + certify round trip
+const STORE_GAS_UNITS = BigInt(15_000)
+
+// Digests and blob IDs are 32 bytes
+const DIGEST_LEN = 32
+const BLOB_ID_LEN = 32
+
+const PRICING_TTL_MS = 5 * 60 * 1000
+let pricingCache: { pricing: WalrusPricing; fetchedAt: number } | null = null
+
+/**
+ * Number of primary and secondary source symbols for RedStuff encoding
+ */
+function sourceSymbols(nShards: number): { primary: number; secondary: number } {
+  const f = Math.floor((nShards - 1) / 3)
+  return { primary: nShards - 2 * f, secondary: nShards - f }
+}
+
+/**
+ * Encoded length of a blob as charged by Walrus: slivers for every shard
+ * plus per-shard copies of the blob metadata
+ */
+export function encodedBlobLength(unencodedSize: number, nShards: number): number {
+  const { primary, secondary } = sourceSymbols(nShards)
+
+  // Symbol size is rounded up to a multiple of 2 for RS2
+  let symbolSize = Math.ceil(Math.max(1, unencodedSize) / (primary * secondary))
+  if (symbolSize % 2 !== 0) symbolSize += 1
+
+  const sliversSize = nShards * (primary + secondary) * symbolSize
+  const metadataSize = nShards * DIGEST_LEN * 2 + BLOB_ID_LEN
+
+  return nShards * metadataSize + sliversSize
+}
+
+/**
+ * Depth-first search for a named field in a parsed Move object
+ */
+export function findMoveField(value: unknown, name: string): unknown {
+  if (!value || typeof value !== "object") return undefined
+  const record = value as Record<string, unknown>
+  if (name in record) return record[name]
+  for (const child of Object.values(record)) {
+    const found = findMoveField(child, name)
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+/**
+ * Walrus System object for a network (overridable via env)
+ */
+export function getSystemObjectId(network: WalrusNetwork = getWalrusNetwork()): string {
+  const systemObjectId = process.env.NEXT_PUBLIC_WALRUS_SYSTEM_OBJECT || SYSTEM_OBJECT_IDS[network]
+  if (!systemObjectId) {
+    throw new Error(`No Walrus system object configured for ${network}`)
+  }
+  return systemObjectId
+}
+
+/**
+ * Walrus package to call (`package_id` on the System object, which follows
+ * upgrades) and the package that defines its types (from the System type)
+ */
+export async function getWalrusPackageIds(
+  client: SuiClient
+): Promise<{ packageId: string; typeOriginId: string }> {
+  const systemObjectId = getSystemObjectId()
+  const system = await client.getObject({
+    id: systemObjectId,
+    options: { showContent: true, showType: true },
+  })
+  if (system.data?.content?.dataType !== "moveObject" || !system.data.type) {
+    throw new Error(`Walrus object ${systemObjectId} not found`)
+  }
+
+  const typeOriginId = system.data.type.split("::")[0]
+  const packageId = findMoveField(system.data.content.fields, "package_id")
+  return {
+    packageId: typeof packageId === "string" ? packageId : typeOriginId,
+    typeOriginId,
+  }
+}
+
+/**
+ * Read the fields of the inner state of a versioned Walrus object (System
+ * or Staking). The state is a dynamic field keyed by version, held either
+ * by the object itself or by a Versioned wrapper in its `inner` field.
+ */
+export async function getVersionedInnerFields(
+  client: SuiClient,
+  objectId: string
+): Promise<Record<string, unknown>> {
+  const outer = await client.getObject({ id: objectId, options: { showContent: true } })
+  if (outer.data?.content?.dataType !== "moveObject") {
+    throw new Error(`Walrus object ${objectId} not found`)
+  }
+
+  const versioned = findMoveField(outer.data.content.fields, "inner")
+  const versionedUid = versioned === undefined ? undefined : findMoveField(versioned, "id")
+  const parentId =
+    typeof versionedUid === "string" ? versionedUid : findMoveField(versionedUid, "id") ?? objectId
+  if (typeof parentId !== "string") {
+    throw new Error(`Unexpected layout for Walrus object ${objectId}`)
+  }
+
+  const dynamicFields = await client.getDynamicFields({ parentId })
+  if (dynamicFields.data.length === 0) {
+    throw new Error(`Inner state of Walrus object ${objectId} not found`)
+  }
+
+  const inner = await client.getObject({
+    id: dynamicFields.data[0].objectId,
+    options: { showContent: true },
+  })
+  if (inner.data?.content?.dataType !== "moveObject") {
+    throw new Error(`Inner state of Walrus object ${objectId} not readable`)
+  }
+
+  return inner.data.content.fields as Record<string, unknown>
+}
+
+/**
+ * Read current pricing from the Walrus system object
+ */
+export async function getWalrusPricing(client: SuiClient): Promise<WalrusPricing> {
+  const network = getWalrusNetwork()
+  if (network === "local") return LOCAL_PRICING
+
+  if (pricingCache && Date.now() - pricingCache.fetchedAt < PRICING_TTL_MS) {
+    return pricingCache.pricing
+  }
+
+  const fields = await getVersionedInnerFields(client, getSystemObjectId(network))
+  const storagePrice = findMoveField(fields, "storage_price_per_unit_size")
+  const writePrice = findMoveField(fields, "write_price_per_unit_size")
+  const nShards = findMoveField(fields, "n_shards")
+  const epoch = findMoveField(fields, "epoch")
+
+  if (storagePrice === undefined || writePrice === undefined || nShards === undefined) {
+    throw new Error("Walrus pricing fields missing from system state")
+  }
+
+  const pricing: WalrusPricing = {
+    storagePricePerUnit: BigInt(String(storagePrice)),
+    writePricePerUnit: BigInt(String(writePrice)),
+    nShards: Number(nShards),
+    currentEpoch: Number(epoch ?? 0),
+  }
+  pricingCache = { pricing, fetchedAt: Date.now() }
+  return pricing
+}
+
+/**
+ * Quote the cost of storing blobs of the given sizes for a number of epochs
+ */
+export async function quoteStorage(
+  client: SuiClient,
+  blobSizes: number[],
+  epochs: number
+): Promise<StorageQuote> {
+  const pricing = await getWalrusPricing(client)
+
+  let encodedSize = 0
+  let storageUnits = 0
+  for (const size of blobSizes) {
+    const encoded = encodedBlobLength(size, pricing.nShards)
+    encodedSize += encoded
+    storageUnits += Math.ceil(encoded / STORAGE_UNIT_SIZE)
+  }
+
+  const units = BigInt(storageUnits)
+  const storageCostFrost = units * pricing.storagePricePerUnit * BigInt(epochs)
+  const writeCostFrost = units * pricing.writePricePerUnit
+
+  let gasPrice = BigInt(1_000)
+  if (getWalrusNetwork() !== "local") {
+    try {
+      gasPrice = await client.getReferenceGasPrice()
+    } catch (e) {
+      console.warn("Failed to read reference gas price:", e)
+    }
+  }
+
+  return {
+    unencodedSize: blobSizes.reduce((sum, size) => sum + size, 0),
+    encodedSize,
+    storageUnits,
+    epochs,
+    storageCostFrost,
+    writeCostFrost,
+    totalFrost: storageCostFrost + writeCostFrost,
+    gasMist: gasPrice * STORE_GAS_UNITS * BigInt(blobSizes.length),
+    pricing,
+  }
+}
+
+/**
+ * Compare the cost reported by the publisher with a quote. Publishers
+ * report 0 for blobs that were already certified.
+ */
+export function reconcileCost(
+  quote: StorageQuote,
+  actualCostFrost: number | bigint
+): { actualFrost: bigint; differenceFrost: bigint; matches: boolean } {
+  const actualFrost = BigInt(actualCostFrost)
+  const differenceFrost = actualFrost - quote.totalFrost
+  // Allow 1% drift for price changes between quote and upload
+  const tolerance = quote.totalFrost / BigInt(100)
+  const absDifference = differenceFrost < BigInt(0) ? -differenceFrost : differenceFrost
+
+  return { actualFrost, differenceFrost, matches: absDifference <= tolerance }
+}
+
+/**
+ * Format an amount of FROST (or MIST) as WAL (or SUI)
+ */
+export function formatTokenAmount(amount: bigint, decimals = 4): string {
+  const whole = amount / FROST_PER_WAL
+  const fraction = (amount % FROST_PER_WAL).toString().padStart(9, "0").slice(0, decimals)
+  return decimals > 0 ? `${whole}.${fraction}` : whole.toString()
+}
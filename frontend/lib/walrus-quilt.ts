@@ -0,0 +1,176 @@
+/**
+ * Walrus Quilt Packing
+ * Bundles many small envelopes into a single Walrus blob with an index
+ * header, so a batch of documents costs one blob instead of one each.
+ * Files stay individually retrievable by (blobId, index).
+ */
+
+import { hashFile } from "./merkle"
+import type { ProgressCallback } from "./progress"
+import { retrieveFromWalrus, uploadToWalrus, type UploadOptions, type UploadResult } from "./walrus"
+
+// Magic prefix identifying a quilt blob ("ZKSQ")
+const QUILT_MAGIC = new Uint8Array([0x5a, 0x4b, 0x53, 0x51])
+const QUILT_VERSION = 1
+
+// Files above this size gain little from packing; upload them on their own
+export const QUILT_MAX_ENTRY_SIZE = 1024 * 1024
+export const QUILT_MAX_ENTRIES = 256
+
+export interface QuiltEntry {
+  index: number
+  // Byte range within the payload that follows the index header
+  offset: number
+  length: number
+  // SHA-256 (hex) of the entry's envelope bytes
+  sha256: string
+  // Per-file commitment, so proofs stay per-file
+  commitment: string
+}
+
+export interface QuiltIndex {
+  version: number
+  entries: QuiltEntry[]
+}
+
+export interface QuiltFile {
+  envelope: Uint8Array
+  commitment: string
+}
+
+export interface QuiltUploadResult extends UploadResult {
+  entries: QuiltEntry[]
+}
+
+/**
+ * Pack envelopes into a quilt: [4 bytes magic][4 bytes index length, LE]
+ * [index JSON][envelopes back to back]
+ */
+export async function packQuilt(files: QuiltFile[]): Promise<Uint8Array> {
+  if (files.length === 0) {
+    throw new Error("Cannot pack an empty quilt")
+  }
+  if (files.length > QUILT_MAX_ENTRIES) {
+    throw new Error(`A quilt holds at most ${QUILT_MAX_ENTRIES} files, got ${files.length}`)
+  }
+
+  const entries: QuiltEntry[] = []
+  let offset = 0
+  for (const [index, file] of files.entries()) {
+    if (file.envelope.length > QUILT_MAX_ENTRY_SIZE) {
+      throw new Error(
+        `File ${index} is ${file.envelope.length} bytes; quilt entries are limited to ${QUILT_MAX_ENTRY_SIZE}`
+      )
+    }
+    entries.push({
+      index,
+      offset,
+      length: file.envelope.length,
+      sha256: await hashFile(file.envelope),
+      commitment: file.commitment,
+    })
+    offset += file.envelope.length
+  }
+
+  const index: QuiltIndex = { version: QUILT_VERSION, entries }
+  const header = new TextEncoder().encode(JSON.stringify(index))
+  const headerEnd = QUILT_MAGIC.length + 4 + header.length
+
+  const result = new Uint8Array(headerEnd + offset)
+  result.set(QUILT_MAGIC, 0)
+  new DataView(result.buffer).setUint32(QUILT_MAGIC.length, header.length, true)
+  result.set(header, QUILT_MAGIC.length + 4)
+  for (const [i, file] of files.entries()) {
+    result.set(file.envelope, headerEnd + entries[i].offset)
+  }
+
+  return result
+}
+
+/**
+ * Parse the index header of a quilt, returning null if the data is not a
+ * quilt. `payloadOffset` is where entry offsets are counted from.
+ */
+export function parseQuiltIndex(data: Uint8Array): { index: QuiltIndex; payloadOffset: number } | null {
+  if (data.length < QUILT_MAGIC.length + 4) return null
+  for (let i = 0; i < QUILT_MAGIC.length; i++) {
+    if (data[i] !== QUILT_MAGIC[i]) return null
+  }
+
+  const headerLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(
+    QUILT_MAGIC.length,
+    true
+  )
+  const payloadOffset = QUILT_MAGIC.length + 4 + headerLength
+  if (payloadOffset > data.length) {
+    throw new Error("Quilt index header is truncated")
+  }
+
+  const index: QuiltIndex = JSON.parse(
+    new TextDecoder().decode(data.subarray(QUILT_MAGIC.length + 4, payloadOffset))
+  )
+  if (index.version !== QUILT_VERSION) {
+    throw new Error(`Unsupported quilt version: ${index.version}`)
+  }
+
+  const payloadLength = data.length - payloadOffset
+  for (const entry of index.entries) {
+    if (entry.offset < 0 || entry.offset + entry.length > payloadLength) {
+      throw new Error(`Quilt entry ${entry.index} lies outside the blob`)
+    }
+  }
+
+  return { index, payloadOffset }
+}
+
+/**
+ * Extract one entry from quilt bytes, checking it against its recorded digest
+ */
+export async function extractQuiltEntry(data: Uint8Array, index: number): Promise<Uint8Array> {
+  const parsed = parseQuiltIndex(data)
+  if (!parsed) {
+    throw new Error("Blob is not a quilt")
+  }
+
+  const entry = parsed.index.entries.find((e) => e.index === index)
+  if (!entry) {
+    throw new Error(`Quilt has no entry ${index} (${parsed.index.entries.length} entries)`)
+  }
+
+  const start = parsed.payloadOffset + entry.offset
+  const envelope = data.slice(start, start + entry.length)
+  if ((await hashFile(envelope)) !== entry.sha256) {
+    throw new Error(`Integrity check failed for quilt entry ${index}`)
+  }
+
+  return envelope
+}
+
+/**
+ * Pack envelopes into a quilt and upload it as one blob (chunked like any
+ * other upload if the quilt is large)
+ */
+export async function uploadQuilt(
+  files: QuiltFile[],
+  epochs: number,
+  options: UploadOptions = {}
+): Promise<QuiltUploadResult> {
+  const quilt = await packQuilt(files)
+  const result = await uploadToWalrus(quilt, epochs, options)
+  return { ...result, entries: parseQuiltIndex(quilt)!.index.entries }
+}
+
+/**
+ * Retrieve a single envelope from a quilt by (blobId, index). The whole
+ * quilt is downloaded (aggregators serve blobs whole), checked against
+ * `expectedDigest` when given, and the entry against its own digest.
+ */
+export async function retrieveFromQuilt(
+  blobId: string,
+  index: number,
+  expectedDigest?: string,
+  onProgress?: ProgressCallback
+): Promise<Uint8Array> {
+  const data = await retrieveFromWalrus(blobId, expectedDigest, onProgress)
+  return extractQuiltEntry(data, index)
+}
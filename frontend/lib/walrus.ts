@@ -3,50 +3,226 @@
  * Handles blob storage operations on Walrus decentralized storage
  */
 
-// Walrus Testnet publisher endpoints (try multiple)
-const PUBLISHER_ENDPOINTS = [
-  "https://publisher.walrus-testnet.walrus.space",
-  "https://wal-publisher-testnet.staketab.org",
-  "https://walrus-testnet-publisher.bartestnet.com",
-  "https://walrus-testnet.blockscope.net",
-]
-
-// Walrus Testnet aggregator endpoints (try multiple)
-const AGGREGATOR_ENDPOINTS = [
-  "https://aggregator.walrus-testnet.walrus.space",
-  "https://wal-aggregator-testnet.staketab.org",
-  "https://walrus-testnet-aggregator.bartestnet.com",
-  "https://walrus-testnet.blockscope.net:443",
-]
+import {
+  AGGREGATOR_TIMEOUT_MS,
+  PUBLISHER_TIMEOUT_MS,
+  fetchFromEndpoint,
+  getEndpointHealth,
+  getEndpoints,
+  getWalrusNetwork,
+  recordFailure,
+} from "./walrus-endpoints"
+import {
+  findMoveField,
+  getSystemObjectId,
+  getWalrusPackageIds,
+  quoteStorage,
+  type StorageQuote,
+} from "./walrus-pricing"
+import { dateToEpochs, getEpochInfo, type EpochInfo } from "./walrus-epochs"
+import { createSuiClient } from "./sui"
+import { hashFile } from "./merkle"
+import { createProgressReporter, type ProgressCallback } from "./progress"
+import type { CoinStruct, SuiClient } from "@mysten/sui/client"
+import type { Transaction } from "@mysten/sui/transactions"
+
+// Largest envelope stored as a single blob; anything bigger is chunked
+export const MAX_SINGLE_BLOB_SIZE = 8 * 1024 * 1024
+
+// Magic prefix identifying a chunk manifest blob ("ZKSM")
+const MANIFEST_MAGIC = new Uint8Array([0x5a, 0x4b, 0x53, 0x4d])
+const MANIFEST_VERSION = 1
+// Approximate serialized manifest size, for cost estimates
+const MANIFEST_BASE_SIZE = 128
+const MANIFEST_ENTRY_SIZE = 160
+
+// Bounds for racing a second aggregator against a slow one
+const HEDGE_DEFAULT_DELAY_MS = 1_000
+const HEDGE_MIN_DELAY_MS = 500
+const HEDGE_MAX_DELAY_MS = 5_000
+
+// Slice size for streamed request bodies
+const UPLOAD_SLICE_SIZE = 64 * 1024
 
 export interface UploadResult {
   blobId: string
   suiObjectId?: string
+  endEpoch: number
+  // Storage cost reported by the publisher, in FROST
+  cost: number
+  // SHA-256 (hex) of the stored blob bytes, for integrity-checked retrieval
+  digest: string
+  // Whether the blob can be deleted before its end epoch
+  deletable?: boolean
+  chunks?: ChunkInfo[]
+}
+
+export interface ChunkInfo {
+  index: number
+  blobId: string
+  size: number
+  sha256?: string
+  suiObjectId?: string
+}
+
+// A chunk blob stored during an upload, with what's needed to resume it
+export interface StoredChunk extends ChunkInfo {
   endEpoch: number
   cost: number
 }
 
+export interface ChunkManifest {
+  version: number
+  totalSize: number
+  chunkSize: number
+  chunks: ChunkInfo[]
+}
+
+export type BlobCertification = "certified" | "registered" | "nonexistent" | "unknown"
+
+export interface BlobStatus {
+  blobId: string
+  status: BlobCertification
+  certifiedEpoch: number | null
+  endEpoch: number | null
+  deletable: boolean | null
+  // Sui Blob object holding the blob's storage resource
+  suiObjectId: string | null
+  // Aggregators currently serving the blob
+  aggregators: string[]
+  currentEpoch: number | null
+  // The blob is past its end epoch or no longer stored
+  lapsed: boolean
+}
+
+type OnChainBlobStatus = Pick<
+  BlobStatus,
+  "status" | "certifiedEpoch" | "endEpoch" | "deletable" | "suiObjectId"
+>
+
+export interface UploadOptions {
+  // Split envelopes larger than this into chunk blobs
+  chunkSize?: number
+  onProgress?: ProgressCallback
+  // Store as deletable blobs, so they can be erased before their end epoch
+  deletable?: boolean
+  // Address to receive the Sui Blob objects; needed to delete them later
+  sendObjectTo?: string
+  // Chunks stored by an earlier attempt at the same upload, which are skipped
+  completedChunks?: StoredChunk[]
+  // Called as each chunk blob is stored, so the upload can be resumed
+  onChunk?: (chunk: StoredChunk) => void | Promise<void>
+}
+
+// Deletable blobs must be re-stored deletable and sent to their owner, or
+// the new copy can't be erased
+export interface ExtendOptions extends Pick<UploadOptions, "deletable" | "sendObjectTo"> {
+  // The blob's current end epoch, which the extension is added to
+  endEpoch: number
+}
+
+export interface OwnedBlobObject {
+  objectId: string
+  blobId: string
+  deletable: boolean
+  endEpoch: number
+}
+
+let requestStreamsSupported: boolean | null = null
+
 /**
- * Try uploading to multiple endpoints with fallback
+ * Whether fetch can send a ReadableStream request body (Chromium only at
+ * the time of writing). Detected once per session.
  */
-export async function uploadToWalrus(
-  encryptedData: Uint8Array,
-  epochs: number = 5
+function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported !== null) return requestStreamsSupported
+
+  try {
+    let duplexAccessed = false
+    const hasContentType = new Request("https://walrus.invalid", {
+      body: new ReadableStream(),
+      method: "POST",
+      get duplex() {
+        duplexAccessed = true
+        return "half"
+      },
+    } as RequestInit).headers.has("Content-Type")
+    requestStreamsSupported = duplexAccessed && !hasContentType
+  } catch {
+    requestStreamsSupported = false
+  }
+  return requestStreamsSupported
+}
+
+function toBlob(data: Uint8Array): Blob {
+  const buffer = new ArrayBuffer(data.length)
+  new Uint8Array(buffer).set(data)
+  return new Blob([buffer], { type: "application/octet-stream" })
+}
+
+/**
+ * Request body that reports bytes as the network pulls them
+ */
+function progressStream(data: Uint8Array, onBytes: (sent: number) => void): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close()
+        return
+      }
+      const end = Math.min(offset + UPLOAD_SLICE_SIZE, data.length)
+      controller.enqueue(data.slice(offset, end))
+      offset = end
+      onBytes(offset)
+    },
+  })
+}
+
+/**
+ * Publisher query string for storing a blob
+ */
+function storeQuery(epochs: number, options: Pick<UploadOptions, "deletable" | "sendObjectTo"> = {}): string {
+  const params = new URLSearchParams({ epochs: String(epochs) })
+  if (options.deletable) params.set("deletable", "true")
+  if (options.sendObjectTo) params.set("send_object_to", options.sendObjectTo)
+  return params.toString()
+}
+
+/**
+ * Store a single blob, trying each publisher in turn. `onBytes` receives
+ * the bytes of this blob sent so far; bodies are streamed where the browser
+ * supports it (HTTPS only, as request streams need HTTP/2), otherwise the
+ * blob is reported as sent once the publisher responds.
+ */
+async function putBlob(
+  data: Uint8Array,
+  query: string,
+  onBytes?: (sent: number) => void
 ): Promise<UploadResult> {
-  const buffer = new ArrayBuffer(encryptedData.length)
-  new Uint8Array(buffer).set(encryptedData)
-  const blob = new Blob([buffer], { type: "application/octet-stream" })
+  const digest = await hashFile(data)
+  // Copied into a Blob only when a publisher can't take a streamed body
+  let blob: Blob | undefined
 
   let lastError: Error | null = null
 
-  for (const publisher of PUBLISHER_ENDPOINTS) {
+  for (const publisher of getEndpoints("publisher")) {
     try {
+      const streamed = !!onBytes && publisher.startsWith("https:") && supportsRequestStreams()
+      onBytes?.(0)
+
       // Correct endpoint is /v1/blobs (not /v1/store)
-      const response = await fetch(`${publisher}/v1/blobs?epochs=${epochs}`, {
-        method: "PUT",
-        body: blob,
-        headers: { "Content-Type": "application/octet-stream" },
-      })
+      const response = await fetchFromEndpoint(
+        publisher,
+        `/v1/blobs?${query}`,
+        {
+          method: "PUT",
+          body: streamed ? progressStream(data, onBytes!) : (blob ??= toBlob(data)),
+          headers: { "Content-Type": "application/octet-stream" },
+          ...(streamed ? { duplex: "half" } : {}),
+        } as RequestInit,
+        PUBLISHER_TIMEOUT_MS
+      )
 
       if (!response.ok) {
         const errorText = await response.text().catch(() => response.statusText)
@@ -54,6 +230,7 @@ export async function uploadToWalrus(
       }
 
       const result = await response.json()
+      onBytes?.(data.length)
 
       if (result.newlyCreated) {
         return {
@@ -61,12 +238,31 @@ export async function uploadToWalrus(
           suiObjectId: result.newlyCreated.blobObject.id,
           endEpoch: result.newlyCreated.blobObject.storage?.endEpoch || 0,
           cost: result.newlyCreated.cost || 0,
+          digest,
+          deletable: !!result.newlyCreated.blobObject.deletable,
         }
       } else if (result.alreadyCertified) {
+        const certified = result.alreadyCertified
+        const existing = certified.blobObject
+        // Publishers name the existing Blob object either in full or by ID;
+        // only a certification event means the object isn't ours to manage
+        const suiObjectId: string | undefined = existing?.id ?? certified.object
+        let deletable: boolean | undefined = existing ? !!existing.deletable : undefined
+        if (deletable === undefined && suiObjectId) {
+          deletable = await readBlobObject(createSuiClient(), certified.blobId, suiObjectId)
+            .then((status) => status.deletable ?? undefined)
+            .catch((err) => {
+              console.warn(`Failed to read Blob object ${suiObjectId}:`, err)
+              return undefined
+            })
+        }
         return {
-          blobId: result.alreadyCertified.blobId,
-          endEpoch: result.alreadyCertified.endEpoch || 0,
+          blobId: certified.blobId,
+          suiObjectId,
+          endEpoch: existing?.storage?.endEpoch || certified.endEpoch || 0,
           cost: 0,
+          digest,
+          deletable,
         }
       }
 
@@ -84,56 +280,779 @@ export async function uploadToWalrus(
 }
 
 /**
- * Retrieve blob data from Walrus
+ * Upload data to Walrus, splitting it into chunk blobs plus a manifest
+ * blob when it exceeds the chunk size. The returned blobId is always the
+ * one to record on the receipt. `onProgress` reports envelope bytes sent.
+ * Chunks in `completedChunks` are reused rather than stored again.
  */
-export async function retrieveFromWalrus(blobId: string): Promise<Uint8Array> {
-  let lastError: Error | null = null
+export async function uploadToWalrus(
+  encryptedData: Uint8Array,
+  epochs: number = 5,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const { chunkSize = MAX_SINGLE_BLOB_SIZE, onProgress, completedChunks = [], onChunk } = options
+  const report = createProgressReporter(encryptedData.length, onProgress)
+  const query = storeQuery(epochs, options)
 
-  for (const aggregator of AGGREGATOR_ENDPOINTS) {
-    try {
-      // Correct endpoint is /v1/blobs/<blobId>
-      const response = await fetch(`${aggregator}/v1/blobs/${blobId}`)
-      if (!response.ok) continue
+  if (encryptedData.length <= chunkSize) {
+    return putBlob(encryptedData, query, report)
+  }
 
-      const arrayBuffer = await response.arrayBuffer()
-      return new Uint8Array(arrayBuffer)
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err))
-      continue
+  const chunks: ChunkInfo[] = []
+  let cost = 0
+  let endEpoch = Number.MAX_SAFE_INTEGER
+
+  // Upload sequentially to keep memory and publisher load bounded
+  for (let offset = 0; offset < encryptedData.length; offset += chunkSize) {
+    const chunk = encryptedData.subarray(offset, Math.min(offset + chunkSize, encryptedData.length))
+    let stored = completedChunks.find((c) => c.index === chunks.length)
+
+    // A resumed chunk must hold exactly these bytes, or the manifest would lie
+    if (stored && (stored.size !== chunk.length || (stored.sha256 && stored.sha256 !== (await hashFile(chunk))))) {
+      throw new Error(`Stored chunk ${stored.index} does not match the data being uploaded`)
     }
+    if (stored) {
+      report(offset + chunk.length)
+    } else {
+      const result = await putBlob(chunk, query, (sent) => report(offset + sent))
+      stored = {
+        index: chunks.length,
+        blobId: result.blobId,
+        size: chunk.length,
+        sha256: result.digest,
+        suiObjectId: result.suiObjectId,
+        endEpoch: result.endEpoch,
+        cost: result.cost,
+      }
+      await onChunk?.(stored)
+    }
+
+    chunks.push({
+      index: stored.index,
+      blobId: stored.blobId,
+      size: stored.size,
+      sha256: stored.sha256,
+      suiObjectId: stored.suiObjectId,
+    })
+    cost += stored.cost
+    endEpoch = Math.min(endEpoch, stored.endEpoch)
   }
 
-  throw new Error(
-    `Failed to retrieve blob from any aggregator. Last error: ${lastError?.message || "Unknown"}`
+  const manifest: ChunkManifest = {
+    version: MANIFEST_VERSION,
+    totalSize: encryptedData.length,
+    chunkSize,
+    chunks,
+  }
+  const manifestResult = await putBlob(serializeManifest(manifest), query)
+
+  return {
+    blobId: manifestResult.blobId,
+    suiObjectId: manifestResult.suiObjectId,
+    endEpoch: Math.min(endEpoch, manifestResult.endEpoch),
+    cost: cost + manifestResult.cost,
+    digest: manifestResult.digest,
+    deletable: manifestResult.deletable,
+    chunks,
+  }
+}
+
+/**
+ * Hedge delay for an aggregator: a second request is raced once the first
+ * has taken noticeably longer than its usual latency
+ */
+function hedgeDelay(aggregator: string): number {
+  const latency = getEndpointHealth()[aggregator]?.latencyMs ?? HEDGE_DEFAULT_DELAY_MS
+  return Math.min(HEDGE_MAX_DELAY_MS, Math.max(HEDGE_MIN_DELAY_MS, latency * 3))
+}
+
+/**
+ * Read a response body, reporting bytes received against Content-Length
+ * (0 when the aggregator doesn't send one)
+ */
+async function readBody(
+  response: Response,
+  onBytes?: (received: number, total: number) => void
+): Promise<Uint8Array> {
+  if (!onBytes || !response.body) {
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  const total = Number(response.headers.get("Content-Length") ?? 0)
+  const reader = response.body.getReader()
+  const parts: Uint8Array[] = []
+  let received = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parts.push(value)
+    received += value.length
+    onBytes(received, total)
+  }
+
+  const data = new Uint8Array(received)
+  let offset = 0
+  for (const part of parts) {
+    data.set(part, offset)
+    offset += part.length
+  }
+  return data
+}
+
+/**
+ * Fetch a blob from one aggregator and check it against the expected digest
+ */
+async function fetchBlobFrom(
+  aggregator: string,
+  blobId: string,
+  expectedDigest: string | undefined,
+  signal: AbortSignal,
+  onBytes?: (received: number, total: number) => void
+): Promise<Uint8Array> {
+  // Correct endpoint is /v1/blobs/<blobId>
+  const response = await fetchFromEndpoint(
+    aggregator,
+    `/v1/blobs/${blobId}`,
+    { signal },
+    AGGREGATOR_TIMEOUT_MS
   )
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${aggregator}`)
+  }
+
+  const data = await readBody(response, onBytes)
+
+  if (expectedDigest && (await hashFile(data)) !== expectedDigest.toLowerCase()) {
+    // A wrong answer is worse than no answer; count it against the endpoint
+    recordFailure(aggregator)
+    throw new Error(`Integrity check failed for blob ${blobId} from ${aggregator}`)
+  }
+
+  return data
 }
 
 /**
- * Check if a blob exists on Walrus
+ * Fetch a single blob with hedged requests: aggregators are tried
+ * healthiest first, and a slow request is raced against the next
+ * aggregator. Failed or mismatching responses move on immediately.
+ *
+ * Walrus blob IDs are derived from the erasure-coded encoding, which is too
+ * costly to recompute in the browser, so integrity is checked against the
+ * SHA-256 digest recorded at upload time.
+ *
+ * `onBytes` follows whichever in-flight request has received the most.
  */
-export async function checkBlobExists(blobId: string): Promise<boolean> {
-  for (const aggregator of AGGREGATOR_ENDPOINTS) {
-    try {
-      const response = await fetch(`${aggregator}/v1/blobs/${blobId}`, { method: "HEAD" })
-      if (response.ok) return true
-    } catch {
-      continue
+async function fetchBlob(
+  blobId: string,
+  expectedDigest?: string,
+  onBytes?: (received: number, total: number) => void
+): Promise<Uint8Array> {
+  const aggregators = getEndpoints("aggregator")
+  let bestReceived = 0
+
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = []
+    let next = 0
+    let inFlight = 0
+    let settled = false
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined
+    let lastError: Error | null = null
+
+    const finish = () => {
+      settled = true
+      clearTimeout(hedgeTimer)
+      controllers.forEach((controller) => controller.abort())
+    }
+
+    const launch = () => {
+      if (settled || next >= aggregators.length) return
+
+      const aggregator = aggregators[next++]
+      const controller = new AbortController()
+      controllers.push(controller)
+      inFlight++
+
+      clearTimeout(hedgeTimer)
+      hedgeTimer = setTimeout(launch, hedgeDelay(aggregator))
+
+      const forward = onBytes
+        ? (received: number, total: number) => {
+            if (received <= bestReceived) return
+            bestReceived = received
+            onBytes(received, total)
+          }
+        : undefined
+
+      fetchBlobFrom(aggregator, blobId, expectedDigest, controller.signal, forward)
+        .then((data) => {
+          if (settled) return
+          finish()
+          resolve(data)
+        })
+        .catch((err) => {
+          inFlight--
+          if (settled) return
+          lastError = err instanceof Error ? err : new Error(String(err))
+          console.warn(`Aggregator ${aggregator} failed:`, lastError.message)
+
+          if (next < aggregators.length) {
+            launch()
+          } else if (inFlight === 0) {
+            finish()
+            reject(
+              new Error(
+                `Failed to retrieve blob from any aggregator. Last error: ${lastError.message}`
+              )
+            )
+          }
+        })
     }
+
+    launch()
+  })
+}
+
+/**
+ * Retrieve blob data from Walrus, reassembling chunked uploads. When an
+ * expected digest is given (the `digest` returned by uploadToWalrus), any
+ * aggregator serving different bytes is skipped. `onProgress` reports
+ * bytes received; for chunked uploads it restarts at 0 once the manifest
+ * has been read, with the envelope size as total.
+ */
+export async function retrieveFromWalrus(
+  blobId: string,
+  expectedDigest?: string,
+  onProgress?: ProgressCallback
+): Promise<Uint8Array> {
+  let reportBlob: ((loaded: number) => void) | null = null
+  const data = await fetchBlob(blobId, expectedDigest, (received, total) => {
+    reportBlob ??= createProgressReporter(total, onProgress)
+    reportBlob(received)
+  })
+
+  const manifest = parseManifest(data)
+  if (!manifest) return data
+
+  const report = createProgressReporter(manifest.totalSize, onProgress)
+  const result = new Uint8Array(manifest.totalSize)
+  let offset = 0
+  report(0)
+
+  for (const chunk of [...manifest.chunks].sort((a, b) => a.index - b.index)) {
+    const chunkOffset = offset
+    const chunkData = await fetchBlob(chunk.blobId, chunk.sha256, (received) =>
+      report(chunkOffset + Math.min(received, chunk.size))
+    )
+    if (chunkData.length !== chunk.size) {
+      throw new Error(
+        `Chunk ${chunk.index} (${chunk.blobId}) has ${chunkData.length} bytes, expected ${chunk.size}`
+      )
+    }
+    result.set(chunkData, offset)
+    offset += chunkData.length
+  }
+
+  if (offset !== manifest.totalSize) {
+    throw new Error(`Reassembled ${offset} bytes, manifest declares ${manifest.totalSize}`)
   }
-  return false
+
+  return result
 }
 
 /**
- * Calculate epochs from TTL days
+ * Stream blob data from Walrus. Like retrieveFromWalrus, but chunks of a
+ * chunked upload are fetched one at a time as the stream is read, and each
+ * is released once it matches its digest, so consumers can start on the
+ * data before the rest has downloaded.
  */
-export function daysToEpochs(days: number): number {
-  return Math.max(1, Math.ceil(days))
+export function streamFromWalrus(
+  blobId: string,
+  expectedDigest?: string,
+  onProgress?: ProgressCallback
+): ReadableStream<Uint8Array> {
+  let chunks: ChunkInfo[] | null = null
+  let report: (loaded: number) => void = () => {}
+  let offset = 0
+  let totalSize = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!chunks) {
+        let reportBlob: ((loaded: number) => void) | null = null
+        const data = await fetchBlob(blobId, expectedDigest, (received, total) => {
+          reportBlob ??= createProgressReporter(total, onProgress)
+          reportBlob(received)
+        })
+
+        const manifest = parseManifest(data)
+        if (!manifest) {
+          controller.enqueue(data)
+          controller.close()
+          return
+        }
+
+        chunks = [...manifest.chunks].sort((a, b) => a.index - b.index)
+        totalSize = manifest.totalSize
+        report = createProgressReporter(totalSize, onProgress)
+        report(0)
+      }
+
+      const chunk = chunks.shift()
+      if (!chunk) {
+        if (offset !== totalSize) {
+          throw new Error(`Reassembled ${offset} bytes, manifest declares ${totalSize}`)
+        }
+        controller.close()
+        return
+      }
+
+      const chunkOffset = offset
+      const chunkData = await fetchBlob(chunk.blobId, chunk.sha256, (received) =>
+        report(chunkOffset + Math.min(received, chunk.size))
+      )
+      if (chunkData.length !== chunk.size) {
+        throw new Error(
+          `Chunk ${chunk.index} (${chunk.blobId}) has ${chunkData.length} bytes, expected ${chunk.size}`
+        )
+      }
+      offset += chunkData.length
+      controller.enqueue(chunkData)
+    },
+  })
 }
 
 /**
- * Estimate storage cost (in MIST)
+ * Extend the lifetime of a stored blob by `additionalEpochs` past its
+ * current end epoch (`options.endEpoch`). The publisher API has no in-place
+ * extend, so the blob bytes are re-stored until the new end epoch; Walrus
+ * keeps the blob ID and the later end epoch. Chunk blobs behind a manifest
+ * are extended along with the manifest. Blob objects the wallet owns can
+ * instead be extended in place (see addExtendBlobCalls).
  */
-export function estimateStorageCost(sizeBytes: number, epochs: number): bigint {
-  const kb = Math.ceil(sizeBytes / 1024)
-  return BigInt(kb * epochs * 100)
+export async function extendBlob(
+  blobId: string,
+  additionalEpochs: number,
+  options: ExtendOptions,
+  client: SuiClient = createSuiClient()
+): Promise<UploadResult> {
+  if (!Number.isInteger(additionalEpochs) || additionalEpochs < 1) {
+    throw new Error(`Invalid epoch count: ${additionalEpochs}. Must be a positive integer.`)
+  }
+
+  // Re-stored epochs count from the current epoch; a lapsed blob restarts from it
+  const info = await getEpochInfo(client)
+  const epochs = Math.max(options.endEpoch, info.currentEpoch) + additionalEpochs - info.currentEpoch
+  if (epochs > info.maxEpochsAhead) {
+    throw new Error(
+      `Extending by ${additionalEpochs} epochs needs ${epochs} epochs from now; Walrus stores at most ${info.maxEpochsAhead} epochs ahead`
+    )
+  }
+
+  const data = await fetchBlob(blobId)
+  const manifest = parseManifest(data)
+
+  let cost = 0
+  let endEpoch = Number.MAX_SAFE_INTEGER
+
+  if (manifest) {
+    for (const chunk of manifest.chunks) {
+      const chunkResult = await putBlob(
+        await fetchBlob(chunk.blobId, chunk.sha256),
+        storeQuery(epochs, options)
+      )
+      cost += chunkResult.cost
+      endEpoch = Math.min(endEpoch, chunkResult.endEpoch)
+    }
+  }
+
+  const result = await putBlob(data, storeQuery(epochs, options))
+  if (result.blobId !== blobId) {
+    throw new Error(`Re-stored blob ID ${result.blobId} does not match ${blobId}`)
+  }
+
+  return {
+    ...result,
+    endEpoch: Math.min(endEpoch, result.endEpoch),
+    cost: cost + result.cost,
+    chunks: manifest?.chunks,
+  }
+}
+
+/**
+ * Serialize a chunk manifest: [4 bytes magic][manifest JSON]
+ */
+export function serializeManifest(manifest: ChunkManifest): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(manifest))
+  const result = new Uint8Array(MANIFEST_MAGIC.length + json.length)
+  result.set(MANIFEST_MAGIC, 0)
+  result.set(json, MANIFEST_MAGIC.length)
+  return result
+}
+
+/**
+ * Parse a chunk manifest, returning null if the data is not a manifest
+ */
+export function parseManifest(data: Uint8Array): ChunkManifest | null {
+  if (data.length < MANIFEST_MAGIC.length) return null
+  for (let i = 0; i < MANIFEST_MAGIC.length; i++) {
+    if (data[i] !== MANIFEST_MAGIC[i]) return null
+  }
+
+  let manifest: ChunkManifest
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(data.subarray(MANIFEST_MAGIC.length)))
+  } catch {
+    return null
+  }
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported chunk manifest version: ${manifest.version}`)
+  }
+  if (!Array.isArray(manifest.chunks) || manifest.chunks.length === 0) {
+    throw new Error("Chunk manifest lists no chunks")
+  }
+
+  return manifest
+}
+
+/**
+ * Walrus blob ID for a u256 as stored in Sui Blob objects: the 32 bytes
+ * little-endian, URL-safe base64 without padding
+ */
+export function blobIdFromU256(value: string | bigint): string {
+  let n = BigInt(value)
+  const bytes = new Uint8Array(32)
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(n & BigInt(0xff))
+    n >>= BigInt(8)
+  }
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+/**
+ * HEAD the blob on every aggregator. Returns those serving it and whether
+ * any answered that the blob is unknown (as opposed to being unreachable).
+ */
+async function probeAggregators(blobId: string): Promise<{ serving: string[]; notFound: boolean }> {
+  const aggregators = getEndpoints("aggregator")
+  const results = await Promise.allSettled(
+    aggregators.map((aggregator) =>
+      fetchFromEndpoint(aggregator, `/v1/blobs/${blobId}`, { method: "HEAD" }, AGGREGATOR_TIMEOUT_MS)
+    )
+  )
+
+  const serving: string[] = []
+  let notFound = false
+  results.forEach((result, i) => {
+    if (result.status !== "fulfilled") return
+    if (result.value.ok) serving.push(aggregators[i])
+    else if (result.value.status === 404) notFound = true
+  })
+  return { serving, notFound }
+}
+
+/**
+ * Read blob status from its Sui Blob object
+ */
+async function readBlobObject(
+  client: SuiClient,
+  blobId: string,
+  objectId: string
+): Promise<OnChainBlobStatus> {
+  const response = await client.getObject({ id: objectId, options: { showContent: true } })
+
+  if (response.error?.code === "deleted" || response.error?.code === "notExists") {
+    return { status: "nonexistent", certifiedEpoch: null, endEpoch: null, deletable: null, suiObjectId: objectId }
+  }
+  if (response.data?.content?.dataType !== "moveObject") {
+    throw new Error(`Blob object ${objectId} not readable`)
+  }
+
+  const fields = response.data.content.fields as Record<string, unknown>
+  const onChainBlobId = findMoveField(fields, "blob_id")
+  if (onChainBlobId !== undefined && blobIdFromU256(String(onChainBlobId)) !== blobId) {
+    throw new Error(`Sui object ${objectId} holds a different blob`)
+  }
+
+  const certifiedEpoch = findMoveField(fields, "certified_epoch")
+  const endEpoch = findMoveField(fields, "end_epoch")
+  return {
+    status: certifiedEpoch === null || certifiedEpoch === undefined ? "registered" : "certified",
+    certifiedEpoch: certifiedEpoch === null || certifiedEpoch === undefined ? null : Number(certifiedEpoch),
+    endEpoch: endEpoch === undefined ? null : Number(endEpoch),
+    deletable: Boolean(findMoveField(fields, "deletable")),
+    suiObjectId: objectId,
+  }
+}
+
+/**
+ * Read blob status from the local Walrus stand-in, which serves it in the
+ * format of a storage node's /v1/blobs/:id/status
+ */
+async function readLocalBlobStatus(blobId: string): Promise<OnChainBlobStatus> {
+  const [endpoint] = getEndpoints("aggregator")
+  const response = await fetchFromEndpoint(
+    endpoint,
+    `/v1/blobs/${blobId}/status`,
+    {},
+    AGGREGATOR_TIMEOUT_MS
+  )
+  if (!response.ok) {
+    throw new Error(`Local Walrus status unavailable: HTTP ${response.status}`)
+  }
+
+  const data = (await response.json()).success?.data
+  const blob = data?.permanent ?? data?.deletable
+  if (!blob) {
+    return { status: "nonexistent", certifiedEpoch: null, endEpoch: null, deletable: null, suiObjectId: null }
+  }
+
+  return {
+    status: blob.isCertified ? "certified" : "registered",
+    certifiedEpoch: blob.initialCertifiedEpoch ?? null,
+    endEpoch: blob.endEpoch ?? null,
+    deletable: !!data.deletable,
+    suiObjectId: blob.objectId ?? null,
+  }
+}
+
+/**
+ * Report a blob's availability: certification and lifetime from its Sui
+ * Blob object (when `suiObjectId` is known), plus which aggregators serve
+ * it. Without an object ID the status is inferred from the aggregators.
+ */
+export async function getBlobStatus(
+  blobId: string,
+  options: { suiObjectId?: string; client?: SuiClient } = {}
+): Promise<BlobStatus> {
+  const client = options.client ?? createSuiClient()
+
+  const readOnChain = (): Promise<OnChainBlobStatus | null> => {
+    if (options.suiObjectId) return readBlobObject(client, blobId, options.suiObjectId)
+    if (getWalrusNetwork() === "local") return readLocalBlobStatus(blobId)
+    return Promise.resolve(null)
+  }
+
+  const [probe, onChain, epochInfo] = await Promise.all([
+    probeAggregators(blobId),
+    readOnChain().catch((err) => {
+      console.warn(`Failed to read status of blob ${blobId}:`, err)
+      return null
+    }),
+    getEpochInfo(client).catch((err) => {
+      console.warn("Failed to load Walrus epoch info:", err)
+      return null
+    }),
+  ])
+
+  // Aggregators only serve certified blobs
+  const status: BlobCertification =
+    onChain?.status ?? (probe.serving.length > 0 ? "certified" : probe.notFound ? "nonexistent" : "unknown")
+  const endEpoch = onChain?.endEpoch ?? null
+  const currentEpoch = epochInfo?.currentEpoch ?? null
+
+  return {
+    blobId,
+    status,
+    certifiedEpoch: onChain?.certifiedEpoch ?? null,
+    endEpoch,
+    deletable: onChain?.deletable ?? null,
+    suiObjectId: onChain?.suiObjectId ?? options.suiObjectId ?? null,
+    aggregators: probe.serving,
+    currentEpoch,
+    lapsed:
+      status === "nonexistent" ||
+      (endEpoch !== null && currentEpoch !== null && currentEpoch >= endEpoch),
+  }
+}
+
+/**
+ * All blob IDs behind an upload: the blob itself and, for chunked uploads,
+ * its chunk blobs
+ */
+export async function getUploadBlobIds(blobId: string, expectedDigest?: string): Promise<string[]> {
+  const manifest = parseManifest(await fetchBlob(blobId, expectedDigest))
+  return manifest ? [blobId, ...manifest.chunks.map((chunk) => chunk.blobId)] : [blobId]
+}
+
+/**
+ * Sui Blob objects owned by an address for the given blob IDs
+ */
+export async function findOwnedBlobObjects(
+  client: SuiClient,
+  owner: string,
+  blobIds: string[]
+): Promise<OwnedBlobObject[]> {
+  const { typeOriginId } = await getWalrusPackageIds(client)
+  const wanted = new Set(blobIds)
+  const found: OwnedBlobObject[] = []
+  let cursor: string | null | undefined = undefined
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: `${typeOriginId}::blob::Blob` },
+      options: { showContent: true },
+      cursor,
+    })
+
+    for (const obj of page.data) {
+      if (obj.data?.content?.dataType !== "moveObject") continue
+      const fields = obj.data.content.fields as Record<string, unknown>
+      const blobId = blobIdFromU256(String(findMoveField(fields, "blob_id")))
+      if (!wanted.has(blobId)) continue
+
+      found.push({
+        objectId: obj.data.objectId,
+        blobId,
+        deletable: Boolean(findMoveField(fields, "deletable")),
+        endEpoch: Number(findMoveField(fields, "end_epoch") ?? 0),
+      })
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null
+  } while (cursor)
+
+  return found
+}
+
+/**
+ * Add Walrus `system::delete_blob` calls for deletable Blob objects to a
+ * transaction. The reclaimed storage resources are returned to `owner`.
+ */
+export async function addDeleteBlobCalls(
+  tx: Transaction,
+  client: SuiClient,
+  objectIds: string[],
+  owner: string
+): Promise<void> {
+  if (objectIds.length === 0) return
+
+  const { packageId } = await getWalrusPackageIds(client)
+  const system = tx.object(getSystemObjectId())
+  const storage = objectIds.map((objectId) =>
+    tx.moveCall({
+      target: `${packageId}::system::delete_blob`,
+      arguments: [system, tx.object(objectId)],
+    })
+  )
+  tx.transferObjects(storage, owner)
+}
+
+/**
+ * Pick, for each blob ID, the owned live Blob object with the latest end
+ * epoch. Returns null unless every blob has one, since an upload lapses
+ * with its earliest blob.
+ */
+export function selectExtendableBlobObjects(
+  objects: OwnedBlobObject[],
+  blobIds: string[],
+  currentEpoch: number
+): OwnedBlobObject[] | null {
+  const selected: OwnedBlobObject[] = []
+  for (const blobId of blobIds) {
+    const latest = objects
+      .filter((obj) => obj.blobId === blobId && obj.endEpoch > currentEpoch)
+      .sort((a, b) => b.endEpoch - a.endEpoch)[0]
+    if (!latest) return null
+    selected.push(latest)
+  }
+  return selected
+}
+
+/**
+ * Add Walrus `system::extend_blob` calls for owned Blob objects to a
+ * transaction, moving each end epoch out by `epochs`. Storage is paid from
+ * the owner's WAL coins, merged into one.
+ */
+export async function addExtendBlobCalls(
+  tx: Transaction,
+  client: SuiClient,
+  objectIds: string[],
+  epochs: number,
+  owner: string
+): Promise<void> {
+  if (objectIds.length === 0) return
+
+  const coins: CoinStruct[] = []
+  let cursor: string | null | undefined = undefined
+  do {
+    const page = await client.getAllCoins({ owner, cursor })
+    coins.push(...page.data.filter((coin) => coin.coinType.endsWith("::wal::WAL") && BigInt(coin.balance) > BigInt(0)))
+    cursor = page.hasNextPage ? page.nextCursor : null
+  } while (cursor)
+  if (coins.length === 0) {
+    throw new Error("Extending blobs needs WAL in the wallet to pay for storage")
+  }
+
+  const payment = tx.object(coins[0].coinObjectId)
+  if (coins.length > 1) {
+    tx.mergeCoins(
+      payment,
+      coins.slice(1).map((coin) => tx.object(coin.coinObjectId))
+    )
+  }
+
+  const { packageId } = await getWalrusPackageIds(client)
+  const system = tx.object(getSystemObjectId())
+  for (const objectId of objectIds) {
+    tx.moveCall({
+      target: `${packageId}::system::extend_blob`,
+      arguments: [system, tx.object(objectId), tx.pure.u32(epochs), payment],
+    })
+  }
+}
+
+/**
+ * Delete a deletable blob from the local Walrus stand-in, returning the
+ * deleted Blob object ID
+ */
+export async function deleteLocalBlob(blobId: string): Promise<string> {
+  const [endpoint] = getEndpoints("publisher")
+  const response = await fetchFromEndpoint(
+    endpoint,
+    `/v1/local/blobs/${blobId}`,
+    { method: "DELETE" },
+    PUBLISHER_TIMEOUT_MS
+  )
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => response.statusText)
+    throw new Error(`Failed to delete blob ${blobId}: HTTP ${response.status}: ${errorText}`)
+  }
+  return (await response.json()).deleted.objectId
+}
+
+/**
+ * Calculate epochs needed to keep a blob for the given number of days
+ */
+export function daysToEpochs(days: number, info: EpochInfo): number {
+  return dateToEpochs(Date.now() + days * 24 * 60 * 60 * 1000, info)
+}
+
+/**
+ * Quote the cost of storing an envelope of the given size, including the
+ * chunk and manifest blobs a chunked upload would create
+ */
+export async function estimateStorageCost(
+  sizeBytes: number,
+  epochs: number,
+  client: SuiClient = createSuiClient(),
+  chunkSize: number = MAX_SINGLE_BLOB_SIZE
+): Promise<StorageQuote> {
+  const blobSizes: number[] = []
+
+  if (sizeBytes <= chunkSize) {
+    blobSizes.push(sizeBytes)
+  } else {
+    for (let offset = 0; offset < sizeBytes; offset += chunkSize) {
+      blobSizes.push(Math.min(chunkSize, sizeBytes - offset))
+    }
+    blobSizes.push(MANIFEST_BASE_SIZE + blobSizes.length * MANIFEST_ENTRY_SIZE)
+  }
+
+  return quoteStorage(client, blobSizes, epochs)
 }
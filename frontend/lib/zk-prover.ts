@@ -4,32 +4,13 @@
  */
 
 import * as snarkjs from "snarkjs"
-// @ts-ignore - circomlibjs doesn't have types
-import { buildPoseidon } from "circomlibjs"
+import { metadataDigestFields } from "./merkle"
+import { FIELD_MODULUS, hexToField, poseidonHash } from "./poseidon"
 import type { SealPolicy } from "./seal"
+import { MAX_KEY_HOLDERS } from "./threshold"
 
-// Cached Poseidon instance
-let poseidonInstance: any = null
-
-async function getPoseidon() {
-  if (!poseidonInstance) {
-    poseidonInstance = await buildPoseidon()
-  }
-  return poseidonInstance
-}
-
-// Helper to convert BigInt to field element string
-function bigintToFieldElement(value: bigint): string {
-  return value.toString()
-}
-
-// Poseidon hash helper
-async function poseidonHash(inputs: string[]): Promise<string> {
-  const poseidon = await getPoseidon()
-  const bigintInputs = inputs.map((x) => BigInt(x))
-  const hash = poseidon(bigintInputs)
-  return poseidon.F.toString(hash)
-}
+// Circuit input signals; array signals are given as arrays
+export type CircuitInputs = Record<string, string | string[]>
 
 export interface ProofInputs {
   // Data commitment (Merkle root)
@@ -71,6 +52,12 @@ export interface ProofBundle {
   proofType: "storage" | "retention" | "consent" | "threshold"
   timestamp: number
   blobId?: string
+  // SHA-256 of the stored Walrus blob, used to reject tampered downloads
+  blobDigest?: string
+  // Entry within a quilt blob, when the file was uploaded in a batch
+  quiltIndex?: number
+  // Sui Blob object holding the blob's storage resource
+  blobObjectId?: string
   policyId?: string
   policy?: SealPolicy
 }
@@ -117,8 +104,11 @@ function hexToFieldElement(input: string): string {
   let hex: string
 
   if (isValidHex(input)) {
-    // Already hex
+    // Already hex; commitments are whole field elements, keep them intact
     hex = input.startsWith("0x") ? input.slice(2) : input
+    if (hex.length <= 64 && BigInt("0x" + hex) < FIELD_MODULUS) {
+      return BigInt("0x" + hex).toString()
+    }
   } else {
     // Try base64 or fall back to string encoding
     hex = base64ToHex(input)
@@ -136,32 +126,49 @@ function hexToFieldElement(input: string): string {
 }
 
 /**
- * Generate storage proof inputs
+ * Generate storage proof inputs from the values the upload commitment was
+ * created from (see createCommitmentWithMetadata): the file's Merkle root,
+ * the policy ID, the commitment timestamp in seconds and the metadata digest
  */
 export async function generateStorageProofInputs(
   commitment: string,
-  fileHash: string,
-  policyId: string
-): Promise<Record<string, string>> {
-  const timestamp = Math.floor(Date.now() / 1000).toString()
-  const policyIdField = hexToFieldElement(policyId)
-
-  // Compute policyHash = Poseidon(policyId, timestamp)
-  const policyHash = await poseidonHash([policyIdField, timestamp])
+  fileRoot: string,
+  policyId: string,
+  timestamp: number,
+  metadataDigest: string
+): Promise<CircuitInputs> {
+  const fileHashField = hexToField(fileRoot)
+  const policyIdField = hexToField(policyId)
+  const timestampField = BigInt(timestamp)
+  const digestFields = metadataDigestFields(metadataDigest)
+
+  // The circuit recomputes commitment = Poseidon(fileHash, policyId, timestamp, digest high, low)
+  const computedCommitment = await poseidonHash([fileHashField, policyIdField, timestampField, ...digestFields])
+  if (computedCommitment !== hexToField(commitment)) {
+    throw new Error("Commitment does not match the file root, policy, timestamp and metadata it was created from")
+  }
 
-  // Also compute the commitment = Poseidon(fileHash, policyId, timestamp)
-  const fileHashField = hexToFieldElement(fileHash)
-  const computedCommitment = await poseidonHash([fileHashField, policyIdField, timestamp])
+  const policyHash = await poseidonHash([policyIdField, timestampField])
 
   return {
-    commitment: computedCommitment, // Use computed commitment to match circuit
-    policyHash: policyHash,
-    fileHash: fileHashField,
-    policyId: policyIdField,
-    timestamp: timestamp,
+    commitment: computedCommitment.toString(),
+    policyHash: policyHash.toString(),
+    fileHash: fileHashField.toString(),
+    policyId: policyIdField.toString(),
+    timestamp: timestampField.toString(),
+    metadataDigest: digestFields.map((field) => field.toString()),
   }
 }
 
+/**
+ * Field element for a commitment as it appears in public signals.
+ * Commitments are stored as 64-char hex; older bundles carried the
+ * decimal field element directly.
+ */
+function commitmentSignal(commitment: string): string {
+  return /^[0-9a-fA-F]{64}$/.test(commitment) ? hexToField(commitment).toString() : commitment
+}
+
 /**
  * Generate retention compliance proof inputs
  */
@@ -196,20 +203,33 @@ export function generateConsentProofInputs(
 }
 
 /**
- * Generate threshold decryption proof inputs
+ * Generate threshold decryption proof inputs from the key holders'
+ * approvals: `approvedIndices` are the share indices (1-based) of the
+ * approvals that verified against the envelope (see verifyApprovals)
  */
-export function generateThresholdProofInputs(
+export async function generateThresholdProofInputs(
   commitment: string,
-  requiredSignatures: number,
-  providedSignatures: number,
+  requiredThreshold: number,
+  approvedIndices: number[],
   auditorAddress: string
-): Record<string, string> {
+): Promise<CircuitInputs> {
+  if (approvedIndices.some((index) => !Number.isInteger(index) || index < 1 || index > MAX_KEY_HOLDERS)) {
+    throw new Error(`Threshold proofs support share indices 1 to ${MAX_KEY_HOLDERS}`)
+  }
+
+  const auditorField = hexToFieldElement(auditorAddress)
+  const auditorAddressHash = await poseidonHash([BigInt(auditorField)])
+  const keyHolderSignatures = Array.from({ length: MAX_KEY_HOLDERS }, (_, i) =>
+    approvedIndices.includes(i + 1) ? "1" : "0"
+  )
+
   return {
     commitment: hexToFieldElement(commitment),
-    requiredSignatures: requiredSignatures.toString(),
-    providedSignatures: providedSignatures.toString(),
-    auditorAddress: hexToFieldElement(auditorAddress),
-    thresholdMet: providedSignatures >= requiredSignatures ? "1" : "0",
+    requiredThreshold: requiredThreshold.toString(),
+    auditorAddressHash: auditorAddressHash.toString(),
+    signaturesProvided: keyHolderSignatures.filter((flag) => flag === "1").length.toString(),
+    keyHolderSignatures,
+    auditorAddress: auditorField,
   }
 }
 
@@ -245,8 +265,17 @@ async function loadCircuitArtifacts(proofType: ProofBundle["proofType"]) {
  */
 export async function generateProof(
   proofType: ProofBundle["proofType"],
-  inputs: Record<string, string>,
-  metadata?: { blobId?: string; policyId?: string; policy?: SealPolicy }
+  inputs: CircuitInputs,
+  metadata?: {
+    // Commitment as recorded on the receipt, when inputs carry its field form
+    commitment?: string
+    blobId?: string
+    blobDigest?: string
+    quiltIndex?: number
+    blobObjectId?: string
+    policyId?: string
+    policy?: SealPolicy
+  }
 ): Promise<ProofBundle> {
   try {
     // Load circuit artifacts
@@ -277,10 +306,13 @@ export async function generateProof(
     return {
       proof: formattedProof,
       publicSignals: publicSignals.map((x: any) => x.toString()),
-      commitment: inputs.commitment,
+      commitment: metadata?.commitment ?? (inputs.commitment as string),
       proofType,
       timestamp: Date.now(),
       blobId: metadata?.blobId,
+      blobDigest: metadata?.blobDigest,
+      quiltIndex: metadata?.quiltIndex,
+      blobObjectId: metadata?.blobObjectId,
       policyId: metadata?.policyId,
       policy: metadata?.policy,
     }
@@ -297,8 +329,17 @@ export async function generateProof(
  */
 async function generateSimulatedProof(
   proofType: ProofBundle["proofType"],
-  inputs: Record<string, string>,
-  metadata?: { blobId?: string; policyId?: string; policy?: SealPolicy }
+  inputs: CircuitInputs,
+  metadata?: {
+    // Commitment as recorded on the receipt, when inputs carry its field form
+    commitment?: string
+    blobId?: string
+    blobDigest?: string
+    quiltIndex?: number
+    blobObjectId?: string
+    policyId?: string
+    policy?: SealPolicy
+  }
 ): Promise<ProofBundle> {
   console.warn("Using simulated proof - circuit artifacts not available")
 
@@ -331,10 +372,13 @@ async function generateSimulatedProof(
   return {
     proof,
     publicSignals,
-    commitment: inputs.commitment,
+    commitment: metadata?.commitment ?? (inputs.commitment as string),
     proofType,
     timestamp: Date.now(),
     blobId: metadata?.blobId,
+    blobDigest: metadata?.blobDigest,
+    quiltIndex: metadata?.quiltIndex,
+    blobObjectId: metadata?.blobObjectId,
     policyId: metadata?.policyId,
     policy: metadata?.policy,
   }
@@ -343,7 +387,7 @@ async function generateSimulatedProof(
 /**
  * Hash inputs for deterministic proof simulation
  */
-async function hashInputs(inputs: Record<string, string>): Promise<string> {
+async function hashInputs(inputs: CircuitInputs): Promise<string> {
   const data = JSON.stringify(inputs)
   const encoder = new TextEncoder()
   const buffer = await crypto.subtle.digest("SHA-256", encoder.encode(data))
@@ -367,8 +411,10 @@ function reverseHash(hash: string): string {
  */
 function generatePublicSignals(
   proofType: ProofBundle["proofType"],
-  inputs: Record<string, string>
+  circuitInputs: CircuitInputs
 ): string[] {
+  // Array inputs are all private
+  const inputs = circuitInputs as Record<string, string>
   switch (proofType) {
     case "storage":
       return [inputs.commitment, inputs.fileHash, "1"]
@@ -381,7 +427,14 @@ function generatePublicSignals(
     case "consent":
       return [inputs.commitment, inputs.signatureValid]
     case "threshold":
-      return [inputs.commitment, inputs.auditorAddress, inputs.thresholdMet]
+      // Outputs thresholdMet and auditorAuthorized, then the public inputs
+      return [
+        Number(inputs.signaturesProvided) >= Number(inputs.requiredThreshold) ? "1" : "0",
+        "1",
+        inputs.commitment,
+        inputs.requiredThreshold,
+        inputs.auditorAddressHash,
+      ]
     default:
       return [inputs.commitment, "1"]
   }
@@ -433,6 +486,16 @@ export async function verifyProof(bundle: ProofBundle): Promise<boolean> {
     return false
   }
 
+  // A storage proof must be about the commitment it claims
+  try {
+    if (bundle.proofType === "storage" && !bundle.publicSignals.includes(commitmentSignal(bundle.commitment))) {
+      console.warn("Storage proof public signals don't include the bundle's commitment")
+      return false
+    }
+  } catch {
+    return false
+  }
+
   try {
     // Load verification key
     const vKey = await loadVerificationKey(bundle.proofType)
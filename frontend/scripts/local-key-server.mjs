@@ -0,0 +1,306 @@
+#!/usr/bin/env node
+/**
+ * Local Seal Key Server
+ * A single-key stand-in for development against testnet or a local network.
+ * Implements the subset of the key server API used by @mysten/seal:
+ *
+ *   GET  /v1/service?service_id=ID  proof of possession of the master key
+ *   POST /v1/fetch_key              derive keys for the IDs approved by a
+ *                                   `seal_approve*` transaction
+ *
+ * Like a real key server, it checks the session certificate and request
+ * signature, then dry-runs the transaction as the certificate's user and
+ * only returns keys if every `seal_approve*` call succeeds. Keys are
+ * ElGamal-encrypted to the request's ephemeral key.
+ *
+ * The server's public key must be registered on-chain as a KeyServer object
+ * (see the printed command); the SDK reads the URL and public key from it.
+ * Pass the same --master-key across restarts to keep the registration valid.
+ *
+ * Usage: node scripts/local-key-server.mjs [--port 2024] [--master-key HEX]
+ *          [--rpc https://fullnode.testnet.sui.io:443]
+ */
+
+import { createServer } from "node:http"
+import { bls12_381 } from "@noble/curves/bls12-381"
+import { bcs } from "@mysten/sui/bcs"
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client"
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519"
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify"
+import { fromBase64, fromHex, normalizeSuiAddress, toBase64, toHex } from "@mysten/sui/utils"
+
+// Must be at least the version the SDK requires (0.4.1)
+const SERVER_VERSION = "0.5.0"
+
+const IBE_DST = new TextEncoder().encode("SUI-SEAL-IBE-BLS12381-00")
+const POP_DST = new TextEncoder().encode("SUI-SEAL-IBE-BLS12381-POP-00")
+
+// Allowed clock drift for session certificates
+const MAX_CLOCK_SKEW_MS = 60 * 1000
+
+const RequestFormat = bcs.struct("RequestFormat", {
+  ptb: bcs.byteVector(),
+  encKey: bcs.byteVector(),
+  encVerificationKey: bcs.byteVector(),
+})
+
+function parseArgs(argv) {
+  const options = {
+    port: 2024,
+    masterKey: process.env.SEAL_MASTER_KEY,
+    rpc: process.env.SUI_RPC_URL ?? getFullnodeUrl("testnet"),
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = argv[i + 1]
+    switch (arg) {
+      case "--port":
+        options.port = Number(value)
+        i++
+        break
+      case "--master-key":
+        options.masterKey = value
+        i++
+        break
+      case "--rpc":
+        options.rpc = value
+        i++
+        break
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  return options
+}
+
+function concatBytes(...arrays) {
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0))
+  let offset = 0
+  for (const a of arrays) {
+    out.set(a, offset)
+    offset += a.length
+  }
+  return out
+}
+
+function randomScalar() {
+  return bls12_381.G1.normPrivateKeyToScalar(bls12_381.utils.randomPrivateKey())
+}
+
+function parseMasterKey(hex) {
+  if (!hex) return randomScalar()
+  const clean = hex.trim().toLowerCase().replace(/^0x/, "")
+  if (!/^[0-9a-f]{64}$/.test(clean)) {
+    throw new Error("The master key must be 32 bytes of hex")
+  }
+  return bls12_381.G1.normPrivateKeyToScalar(fromHex(clean))
+}
+
+function hashToG1(fullId) {
+  const point = bls12_381.G1.hashToCurve(concatBytes(IBE_DST, fullId))
+  return bls12_381.G1.Point.fromAffine(point.toAffine())
+}
+
+function readBody(req) {
+  return new Promise((resolvePromise, reject) => {
+    const chunks = []
+    req.on("data", (chunk) => chunks.push(chunk))
+    req.on("end", () => resolvePromise(Buffer.concat(chunks)))
+    req.on("error", reject)
+  })
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json", "X-KeyServer-Version": SERVER_VERSION })
+  res.end(JSON.stringify(body))
+}
+
+// `error` is one of the codes the SDK maps to its error classes
+function sendError(res, status, error, message) {
+  sendJson(res, status, { error, message })
+}
+
+class KeyServerError extends Error {
+  constructor(status, code, message) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Extract the package and inner IDs from a PTB made only of
+ * `seal_approve*` calls whose first argument is the ID
+ */
+function parseApprovals(ptbBytes) {
+  let ptb
+  try {
+    ptb = bcs.ProgrammableTransaction.parse(ptbBytes)
+  } catch {
+    throw new KeyServerError(400, "InvalidPTB", "The transaction could not be parsed")
+  }
+  if (ptb.commands.length === 0) {
+    throw new KeyServerError(400, "InvalidPTB", "The transaction has no commands")
+  }
+
+  let packageId = null
+  const innerIds = []
+  for (const command of ptb.commands) {
+    const call = command.MoveCall
+    if (!call || !call.function.startsWith("seal_approve")) {
+      throw new KeyServerError(400, "InvalidPTB", "Only seal_approve* calls are allowed")
+    }
+    const callPackage = normalizeSuiAddress(call.package)
+    if (packageId && packageId !== callPackage) {
+      throw new KeyServerError(400, "InvalidPTB", "All calls must be to the same package")
+    }
+    packageId = callPackage
+
+    const first = call.arguments[0]
+    const input = first && first.Input !== undefined ? ptb.inputs[first.Input] : undefined
+    if (!input?.Pure) {
+      throw new KeyServerError(400, "InvalidPTB", "The first argument of seal_approve must be the ID")
+    }
+    innerIds.push(bcs.byteVector().parse(fromBase64(input.Pure.bytes)))
+  }
+
+  return { packageId, innerIds }
+}
+
+export function createLocalKeyServer(options) {
+  const masterKey = parseMasterKey(options.masterKey)
+  const publicKey = bls12_381.G2.Point.BASE.multiply(masterKey).toBytes()
+  const client = new SuiClient({ url: options.rpc })
+
+  async function verifyCertificate(certificate, packageId) {
+    const now = Date.now()
+    const { user, session_vk, creation_time, ttl_min, signature, mvr_name } = certificate
+    if (creation_time > now + MAX_CLOCK_SKEW_MS || creation_time + ttl_min * 60 * 1000 < now) {
+      throw new KeyServerError(403, "InvalidCertificate", "The session certificate has expired")
+    }
+
+    const createdAt = new Date(creation_time).toISOString().slice(0, 19).replace("T", " ")
+    const message = `Accessing keys of package ${mvr_name ?? packageId} for ${ttl_min} mins from ${createdAt} UTC, session key ${session_vk}`
+    try {
+      await verifyPersonalMessageSignature(new TextEncoder().encode(message), signature, { address: user, client })
+    } catch {
+      throw new KeyServerError(403, "InvalidSignature", "The session certificate's signature is invalid")
+    }
+  }
+
+  async function handleFetchKey(req, res) {
+    const body = JSON.parse((await readBody(req)).toString("utf8"))
+    const ptb = fromBase64(body.ptb)
+    const encKey = fromBase64(body.enc_key)
+    const encVerificationKey = fromBase64(body.enc_verification_key)
+
+    const approvals = parseApprovals(ptb)
+    await verifyCertificate(body.certificate, approvals.packageId)
+
+    const sessionKey = new Ed25519PublicKey(fromBase64(body.certificate.session_vk))
+    const signed = RequestFormat.serialize({ ptb, encKey, encVerificationKey }).toBytes()
+    const validSignature = await sessionKey.verify(signed, fromBase64(body.request_signature)).catch(() => false)
+    if (!validSignature) {
+      throw new KeyServerError(403, "InvalidSessionSignature", "Invalid request signature")
+    }
+
+    // The ephemeral key and its verification key must share a secret
+    const encPoint = bls12_381.G1.Point.fromBytes(encKey)
+    const verificationPoint = bls12_381.G2.Point.fromBytes(encVerificationKey)
+    if (
+      !bls12_381.fields.Fp12.eql(
+        bls12_381.pairing(encPoint, bls12_381.G2.Point.BASE),
+        bls12_381.pairing(bls12_381.G1.Point.BASE, verificationPoint)
+      )
+    ) {
+      throw new KeyServerError(400, "InvalidParameter", "Invalid encryption verification key")
+    }
+
+    // The transaction kind's enum tag (0, programmable) was stripped by the SDK
+    const result = await client.devInspectTransactionBlock({
+      sender: body.certificate.user,
+      transactionBlock: concatBytes(new Uint8Array([0]), ptb),
+    })
+    if (result.effects.status.status !== "success") {
+      throw new KeyServerError(403, "NoAccess", result.effects.status.error ?? "seal_approve failed")
+    }
+
+    const packageBytes = fromHex(approvals.packageId)
+    const decryptionKeys = approvals.innerIds.map((innerId) => {
+      const fullId = concatBytes(packageBytes, innerId)
+      const userSecretKey = hashToG1(fullId).multiply(masterKey)
+      const r = randomScalar()
+      return {
+        id: Array.from(fullId),
+        encrypted_key: [
+          toBase64(bls12_381.G1.Point.BASE.multiply(r).toBytes()),
+          toBase64(userSecretKey.add(encPoint.multiply(r)).toBytes()),
+        ],
+      }
+    })
+
+    console.log(`Released ${decryptionKeys.length} key(s) to ${body.certificate.user}`)
+    sendJson(res, 200, { decryption_keys: decryptionKeys })
+  }
+
+  function handleService(res, url) {
+    const serviceId = url.searchParams.get("service_id")
+    if (!serviceId) {
+      throw new KeyServerError(400, "InvalidServiceId", "service_id is required")
+    }
+    const objectId = normalizeSuiAddress(serviceId)
+    const pop = bls12_381.signShortSignature(concatBytes(POP_DST, publicKey, fromHex(objectId)), masterKey)
+    sendJson(res, 200, { service_id: serviceId, pop: toBase64(pop) })
+  }
+
+  const server = createServer(async (req, res) => {
+    // The SDK calls this server directly from the browser
+    res.setHeader("Access-Control-Allow-Origin", "*")
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Request-Id, Client-Sdk-Type, Client-Sdk-Version")
+    res.setHeader("Access-Control-Expose-Headers", "X-KeyServer-Version")
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost")
+
+      if (req.method === "OPTIONS") {
+        res.writeHead(204)
+        res.end()
+      } else if (req.method === "GET" && url.pathname === "/v1/service") {
+        handleService(res, url)
+      } else if (req.method === "POST" && url.pathname === "/v1/fetch_key") {
+        await handleFetchKey(req, res)
+      } else {
+        sendError(res, 404, "NotFound", `no route for ${req.method} ${url.pathname}`)
+      }
+    } catch (err) {
+      if (err instanceof KeyServerError) {
+        sendError(res, err.status, err.code, err.message)
+        return
+      }
+      console.error("Request failed:", err)
+      sendError(res, 500, "Failure", err instanceof Error ? err.message : String(err))
+    }
+  })
+
+  return { server, masterKey, publicKey }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const options = parseArgs(process.argv.slice(2))
+  const { server, masterKey, publicKey } = createLocalKeyServer(options)
+  server.listen(options.port, () => {
+    const url = `http://localhost:${options.port}`
+    console.log(`Local Seal key server listening on ${url} | RPC: ${options.rpc}`)
+    if (!options.masterKey) {
+      console.log(`Generated master key (pass --master-key to reuse): ${masterKey.toString(16).padStart(64, "0")}`)
+    }
+    console.log(`Public key: ${toHex(publicKey)}`)
+    console.log("Register it, then add the created KeyServer object to NEXT_PUBLIC_SEAL_KEY_SERVERS:")
+    console.log(
+      `  sui client call --package $SEAL_PACKAGE_ID --module key_server --function create_and_transfer_v1 --args local-key-server ${url} 0 0x${toHex(publicKey)}`
+    )
+  })
+}
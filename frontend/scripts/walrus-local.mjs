@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+/**
+ * Local Walrus Publisher/Aggregator
+ * A small stand-in for offline development and automated tests. Implements
+ * the subset of the HTTP API used by lib/walrus.ts:
+ *
+ *   PUT  /v1/blobs?epochs=N   store a blob (newlyCreated / alreadyCertified)
+ *   GET  /v1/blobs/:blobId    read a blob
+ *   HEAD /v1/blobs/:blobId    check a blob
+ *   GET  /v1/blobs/:blobId/status  blob status, as served by storage nodes
+ *   GET  /v1/local/epoch      simulated epoch info (local only, not Walrus API)
+ *   DELETE /v1/local/blobs/:blobId  delete a deletable blob (local only; on
+ *                             Walrus the Blob object owner deletes on-chain)
+ *
+ * Epochs are simulated from wall-clock time so expiry can be exercised
+ * quickly. Blobs are persisted to a directory unless --memory is given.
+ *
+ * Usage: node scripts/walrus-local.mjs [--port 31415] [--data-dir .walrus-local]
+ *          [--epoch-duration 86400000] [--max-epochs 53] [--memory]
+ */
+
+import { createServer } from "node:http"
+import { createHash, randomBytes } from "node:crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync } from "node:fs"
+import { join, resolve } from "node:path"
+
+function parseArgs(argv) {
+  const options = {
+    port: 31415,
+    dataDir: ".walrus-local",
+    epochDurationMs: 24 * 60 * 60 * 1000,
+    maxEpochs: 53,
+    memory: false,
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = argv[i + 1]
+    switch (arg) {
+      case "--port":
+        options.port = Number(value)
+        i++
+        break
+      case "--data-dir":
+        options.dataDir = value
+        i++
+        break
+      case "--epoch-duration":
+        options.epochDurationMs = Number(value)
+        i++
+        break
+      case "--max-epochs":
+        options.maxEpochs = Number(value)
+        i++
+        break
+      case "--memory":
+        options.memory = true
+        break
+      default:
+        throw new Error(`Unknown argument: ${arg}`)
+    }
+  }
+
+  if (!Number.isInteger(options.port) || options.port <= 0) {
+    throw new Error(`Invalid port: ${options.port}`)
+  }
+  if (!(options.epochDurationMs > 0)) {
+    throw new Error(`Invalid epoch duration: ${options.epochDurationMs}`)
+  }
+
+  return options
+}
+
+/**
+ * Blob store with optional filesystem persistence. Metadata lives in
+ * index.json, blob bytes in <blobId>.bin.
+ */
+class BlobStore {
+  constructor(dataDir) {
+    this.dataDir = dataDir ? resolve(dataDir) : null
+    this.blobs = new Map()
+    this.data = new Map()
+    this.genesis = Date.now()
+
+    if (this.dataDir) {
+      mkdirSync(this.dataDir, { recursive: true })
+      const indexPath = join(this.dataDir, "index.json")
+      if (existsSync(indexPath)) {
+        const index = JSON.parse(readFileSync(indexPath, "utf8"))
+        this.genesis = index.genesis
+        for (const blob of index.blobs) this.blobs.set(blob.blobId, blob)
+      }
+      this.saveIndex()
+    }
+  }
+
+  saveIndex() {
+    if (!this.dataDir) return
+    writeFileSync(
+      join(this.dataDir, "index.json"),
+      JSON.stringify({ genesis: this.genesis, blobs: [...this.blobs.values()] }, null, 2)
+    )
+  }
+
+  blobPath(blobId) {
+    return join(this.dataDir, `${blobId}.bin`)
+  }
+
+  get(blobId) {
+    return this.blobs.get(blobId)
+  }
+
+  read(blobId) {
+    if (!this.dataDir) return this.data.get(blobId)
+    return readFileSync(this.blobPath(blobId))
+  }
+
+  put(meta, bytes) {
+    const isNew = !this.blobs.has(meta.blobId)
+    this.blobs.set(meta.blobId, meta)
+    if (isNew) {
+      if (this.dataDir) {
+        writeFileSync(this.blobPath(meta.blobId), bytes)
+      } else {
+        this.data.set(meta.blobId, bytes)
+      }
+    }
+    this.saveIndex()
+  }
+
+  delete(blobId) {
+    this.blobs.delete(blobId)
+    this.data.delete(blobId)
+    if (this.dataDir && existsSync(this.blobPath(blobId))) {
+      unlinkSync(this.blobPath(blobId))
+    }
+    this.saveIndex()
+  }
+}
+
+// Pricing and encoding parameters, mirrored in lib/walrus-pricing.ts
+const N_SHARDS = 1000
+const STORAGE_PRICE_PER_UNIT = 100_000
+const WRITE_PRICE_PER_UNIT = 20_000
+const STORAGE_UNIT_SIZE = 1024 * 1024
+
+/**
+ * Encoded length as charged by Walrus (RedStuff slivers plus metadata)
+ */
+function encodedBlobLength(size) {
+  const f = Math.floor((N_SHARDS - 1) / 3)
+  const primary = N_SHARDS - 2 * f
+  const secondary = N_SHARDS - f
+  let symbolSize = Math.ceil(Math.max(1, size) / (primary * secondary))
+  if (symbolSize % 2 !== 0) symbolSize += 1
+  return N_SHARDS * (N_SHARDS * 64 + 32) + N_SHARDS * (primary + secondary) * symbolSize
+}
+
+// Walrus blob IDs are 32 bytes, URL-safe base64 without padding
+function computeBlobId(bytes) {
+  return createHash("sha256").update(bytes).digest("base64url")
+}
+
+function randomObjectId() {
+  return `0x${randomBytes(32).toString("hex")}`
+}
+
+function readBody(req) {
+  return new Promise((resolvePromise, reject) => {
+    const chunks = []
+    req.on("data", (chunk) => chunks.push(chunk))
+    req.on("end", () => resolvePromise(Buffer.concat(chunks)))
+    req.on("error", reject)
+  })
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+function sendError(res, status, message) {
+  sendJson(res, status, { error: { status, message } })
+}
+
+export function createWalrusLocalServer(options) {
+  const store = new BlobStore(options.memory ? null : options.dataDir)
+
+  const currentEpoch = () => Math.floor((Date.now() - store.genesis) / options.epochDurationMs)
+
+  // Expired blobs are no longer served, mirroring Walrus garbage collection
+  const getLiveBlob = (blobId) => {
+    const blob = store.get(blobId)
+    if (!blob) return null
+    if (blob.storage.endEpoch <= currentEpoch()) {
+      store.delete(blobId)
+      return null
+    }
+    return blob
+  }
+
+  const handlePut = async (req, res, url) => {
+    const epochs = Number(url.searchParams.get("epochs") ?? "1")
+    const deletable = url.searchParams.get("deletable") === "true"
+    const owner = url.searchParams.get("send_object_to")
+
+    if (!Number.isInteger(epochs) || epochs < 1 || epochs > options.maxEpochs) {
+      return sendError(res, 400, `epochs must be an integer between 1 and ${options.maxEpochs}`)
+    }
+
+    const bytes = await readBody(req)
+    if (bytes.length === 0) {
+      return sendError(res, 400, "blob must not be empty")
+    }
+
+    const blobId = computeBlobId(bytes)
+    const epoch = currentEpoch()
+    const endEpoch = epoch + epochs
+    const existing = getLiveBlob(blobId)
+
+    if (existing && existing.storage.endEpoch >= endEpoch && !deletable) {
+      return sendJson(res, 200, {
+        alreadyCertified: {
+          blobId,
+          event: { txDigest: randomObjectId(), eventSeq: "0" },
+          endEpoch: existing.storage.endEpoch,
+        },
+      })
+    }
+
+    const encodedLength = encodedBlobLength(bytes.length)
+    const units = Math.ceil(encodedLength / STORAGE_UNIT_SIZE)
+    const blobObject = {
+      id: randomObjectId(),
+      registeredEpoch: epoch,
+      blobId,
+      size: bytes.length,
+      encodingType: "RS2",
+      certifiedEpoch: epoch,
+      storage: {
+        id: randomObjectId(),
+        startEpoch: epoch,
+        endEpoch: Math.max(endEpoch, existing?.storage.endEpoch ?? 0),
+        storageSize: encodedLength,
+      },
+      deletable,
+      owner,
+    }
+    store.put(blobObject, bytes)
+
+    sendJson(res, 200, {
+      newlyCreated: {
+        blobObject,
+        resourceOperation: {
+          registerFromScratch: { encodedLength, epochsAhead: epochs },
+        },
+        cost: units * (STORAGE_PRICE_PER_UNIT * epochs + WRITE_PRICE_PER_UNIT),
+      },
+    })
+  }
+
+  // Same shape as a storage node's blob status response
+  const handleStatus = (res, blobId) => {
+    const blob = getLiveBlob(blobId)
+    if (!blob) {
+      return sendJson(res, 200, { success: { code: 200, data: "nonexistent" } })
+    }
+
+    const status = {
+      endEpoch: blob.storage.endEpoch,
+      isCertified: blob.certifiedEpoch !== null,
+      initialCertifiedEpoch: blob.certifiedEpoch,
+      objectId: blob.id,
+    }
+    sendJson(res, 200, {
+      success: { code: 200, data: blob.deletable ? { deletable: status } : { permanent: status } },
+    })
+  }
+
+  const handleDelete = (res, blobId) => {
+    const blob = getLiveBlob(blobId)
+    if (!blob) {
+      return sendError(res, 404, `blob ${blobId} not found`)
+    }
+    if (!blob.deletable) {
+      return sendError(res, 400, `blob ${blobId} is not deletable`)
+    }
+
+    store.delete(blobId)
+    sendJson(res, 200, { deleted: { blobId, objectId: blob.id } })
+  }
+
+  const handleGet = (req, res, blobId) => {
+    const blob = getLiveBlob(blobId)
+    if (!blob) {
+      return sendError(res, 404, `blob ${blobId} not found`)
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": blob.size,
+      "X-Walrus-End-Epoch": String(blob.storage.endEpoch),
+    })
+    res.end(req.method === "HEAD" ? undefined : store.read(blobId))
+  }
+
+  return createServer(async (req, res) => {
+    // The frontend calls this server directly from the browser
+    res.setHeader("Access-Control-Allow-Origin", "*")
+    res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, PUT, DELETE, OPTIONS")
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type")
+    res.setHeader("Access-Control-Expose-Headers", "Content-Length, X-Walrus-End-Epoch")
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost")
+      const blobMatch = url.pathname.match(/^\/v1\/blobs\/([A-Za-z0-9_-]+)$/)
+      const statusMatch = url.pathname.match(/^\/v1\/blobs\/([A-Za-z0-9_-]+)\/status$/)
+      const deleteMatch = url.pathname.match(/^\/v1\/local\/blobs\/([A-Za-z0-9_-]+)$/)
+
+      if (req.method === "OPTIONS") {
+        res.writeHead(204)
+        res.end()
+      } else if (req.method === "PUT" && url.pathname === "/v1/blobs") {
+        await handlePut(req, res, url)
+      } else if (req.method === "GET" && url.pathname === "/v1/local/epoch") {
+        const epoch = currentEpoch()
+        sendJson(res, 200, {
+          currentEpoch: epoch,
+          epochDurationMs: options.epochDurationMs,
+          epochStartMs: store.genesis + epoch * options.epochDurationMs,
+          maxEpochsAhead: options.maxEpochs,
+        })
+      } else if (req.method === "DELETE" && deleteMatch) {
+        handleDelete(res, deleteMatch[1])
+      } else if (req.method === "GET" && statusMatch) {
+        handleStatus(res, statusMatch[1])
+      } else if ((req.method === "GET" || req.method === "HEAD") && blobMatch) {
+        handleGet(req, res, blobMatch[1])
+      } else {
+        sendError(res, 404, `no route for ${req.method} ${url.pathname}`)
+      }
+    } catch (err) {
+      console.error("Request failed:", err)
+      sendError(res, 500, err instanceof Error ? err.message : String(err))
+    }
+  })
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const options = parseArgs(process.argv.slice(2))
+  const server = createWalrusLocalServer(options)
+  server.listen(options.port, () => {
+    console.log(`Local Walrus listening on http://localhost:${options.port}`)
+    console.log(
+      options.memory ? "Storage: in-memory" : `Storage: ${resolve(options.dataDir)}`,
+      `| epoch duration: ${options.epochDurationMs}ms`
+    )
+  })
+}